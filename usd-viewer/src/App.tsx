@@ -1,19 +1,38 @@
 import { useCallback, useState, useRef, useMemo } from 'react';
 import { Analytics } from '@vercel/analytics/react';
-import { UsdaEditor } from './components/UsdaEditor';
+import { UsdaEditor, type EditorHighlight } from './components/UsdaEditor';
 import { UsdViewer } from './components/UsdViewer';
 import { FileToolbar, downloadAsFile } from './components/FileToolbar';
+import { downloadBlob } from './utils/fileUtils';
 import { FileTree } from './components/FileTree/FileTree';
 import { FileTabs } from './components/FileTabs/FileTabs';
 import { ErrorPanel } from './components/ErrorPanel';
+import { AssetPreview } from './components/AssetPreview';
 import { NewFileDialog } from './components/NewFileDialog';
 import { StageHierarchy } from './components/StageHierarchy/StageHierarchy';
+import { PropertyInspector } from './components/PropertyInspector/PropertyInspector';
 import { useWorkspace } from './stores/workspaceStore';
 import { useVideoRecorder } from './hooks/useVideoRecorder';
+import type { IRange } from 'monaco-editor';
 import type { ParseError } from './types/virtualFileSystem';
 import type { ParsedPrim } from './parsers/usdaParser';
+import type { SourceRange } from './parsers/usdaLexer';
+import { findPrimByPath, type VariantSelections } from './parsers/referenceResolver';
+import { editPropertyValue, type InspectedProperty } from './parsers/properties';
+import { findPrimAtOffset, getDefinitionSource } from './parsers/primLocation';
 import './App.css';
 
+const NO_VARIANT_SELECTIONS: VariantSelections = {};
+
+function toEditorRange(range: SourceRange): IRange {
+  return {
+    startLineNumber: range.start.line,
+    startColumn: range.start.column,
+    endLineNumber: range.end.line,
+    endColumn: range.end.column,
+  };
+}
+
 function App() {
   const {
     files,
@@ -37,11 +56,20 @@ function App() {
     startFrame: 0,
     endFrame: 0,
     currentFrame: 0,
+    framesPerSecond: 24,
   });
   const [parseErrors, setParseErrors] = useState<ParseError[]>([]);
   const [showNewFileDialog, setShowNewFileDialog] = useState(false);
   const [stagePrims, setStagePrims] = useState<ParsedPrim[]>([]);
-  const [selectedPrimPath, setSelectedPrimPath] = useState<string | null>(null);
+  // The last path is the primary selection
+  const [selectedPrimPaths, setSelectedPrimPaths] = useState<string[]>([]);
+  // By stage path: another stage may have a prim at the same path
+  const [variantSelections, setVariantSelections] = useState<Record<string, VariantSelections>>({});
+  const [editorReveal, setEditorReveal] = useState<{ filePath: string; range: IRange } | null>(null);
+  const [primHighlight, setPrimHighlight] = useState<(EditorHighlight & { filePath: string }) | null>(null);
+  // A layer opened from the stage (a prim's definition, an opinion, an error)
+  // shows in the editor while the viewport keeps the stage it belongs to
+  const [pinnedStage, setPinnedStage] = useState<{ stagePath: string; layerPath: string } | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
 
@@ -50,6 +78,38 @@ function App() {
   const activeContent = activeFile?.content ?? '';
   const activeFilename = activeFile?.name ?? 'scene.usda';
 
+  const stagePath =
+    pinnedStage && pinnedStage.layerPath === activeFilePath && files.has(pinnedStage.stagePath)
+      ? pinnedStage.stagePath
+      : activeFilePath;
+  const stageContent = (stagePath ? files.get(stagePath)?.content : undefined) ?? '';
+  const stageVariantSelections = (stagePath && variantSelections[stagePath]) || NO_VARIANT_SELECTIONS;
+
+  // Opening a file from the tree or the tabs makes it the stage again
+  const handleFileSelect = useCallback(
+    (path: string) => {
+      setPinnedStage(null);
+      openFile(path);
+    },
+    [openFile]
+  );
+
+  const handleTabSelect = useCallback(
+    (path: string) => {
+      setPinnedStage(null);
+      setActiveFile(path);
+    },
+    [setActiveFile]
+  );
+
+  const openStageLayer = useCallback(
+    (filePath: string) => {
+      if (stagePath && filePath !== stagePath) setPinnedStage({ stagePath, layerPath: filePath });
+      openFile(filePath);
+    },
+    [stagePath, openFile]
+  );
+
   // Get open files for tabs
   const openFiles = useMemo(() => {
     return openFilePaths
@@ -58,7 +118,7 @@ function App() {
   }, [openFilePaths, files]);
 
   const { startRecording, stopRecording } = useVideoRecorder({
-    fps: 24,
+    fps: animationInfo.framesPerSecond,
     filename: activeFilename.replace(/\.(usda?|usd)$/i, '.webm'),
   });
 
@@ -88,7 +148,9 @@ function App() {
   );
 
   const handleExport = useCallback(() => {
-    if (activeFile) {
+    if (activeFile?.blob) {
+      downloadBlob(activeFile.blob, activeFile.name);
+    } else if (activeFile) {
       downloadAsFile(activeFile.content, activeFile.name);
     }
   }, [activeFile]);
@@ -127,14 +189,118 @@ function App() {
     setParseErrors([]);
   }, []);
 
+  // Open the file an error belongs to and jump to the offending range
+  const handleErrorSelect = useCallback(
+    (error: ParseError) => {
+      if (error.line === undefined || !files.has(error.filePath)) return;
+      const column = error.column ?? 1;
+      openStageLayer(error.filePath);
+      setEditorReveal({
+        filePath: error.filePath,
+        range: {
+          startLineNumber: error.line,
+          startColumn: column,
+          endLineNumber: error.endLine ?? error.line,
+          endColumn: error.endColumn ?? column,
+        },
+      });
+    },
+    [files, openStageLayer]
+  );
+
   const handlePrimsChange = useCallback((prims: ParsedPrim[]) => {
     setStagePrims(prims);
   }, []);
 
-  const handlePrimSelect = useCallback((path: string) => {
-    setSelectedPrimPath(path);
+  // Shift-click (additive) toggles a prim in the selection; null clears it
+  const handlePrimSelect = useCallback((path: string | null, additive = false) => {
+    setSelectedPrimPaths((prev) => {
+      if (path === null) return additive ? prev : [];
+      if (!additive) return [path];
+      return prev.includes(path) ? prev.filter((selected) => selected !== path) : [...prev, path];
+    });
   }, []);
 
+  // Selecting a prim in the hierarchy or the viewport shows its definition in
+  // the editor, opening the layer it is defined in
+  const handlePrimPick = useCallback(
+    (path: string | null, additive = false) => {
+      handlePrimSelect(path, additive);
+      if (additive) return;
+      const source = path ? findPrimByPath(stagePrims, path) : null;
+      const definition = source ? getDefinitionSource(source) : undefined;
+      if (!definition?.layerPath || !files.has(definition.layerPath)) {
+        setPrimHighlight(null);
+        return;
+      }
+      openStageLayer(definition.layerPath);
+      setPrimHighlight({ filePath: definition.layerPath, range: toEditorRange(definition.spec.range), reveal: true });
+    },
+    [handlePrimSelect, stagePrims, files, openStageLayer]
+  );
+
+  // Moving the cursor into a prim's block selects the prim
+  const handleEditorCursor = useCallback(
+    (offset: number) => {
+      if (!activeFilePath) return;
+      const hit = findPrimAtOffset(stagePrims, activeFilePath, offset);
+      if (!hit) return;
+      setSelectedPrimPaths((prev) => (prev.length === 1 && prev[0] === hit.path ? prev : [hit.path]));
+      setPrimHighlight({ filePath: activeFilePath, range: toEditorRange(hit.source.spec.range), reveal: false });
+    },
+    [activeFilePath, stagePrims]
+  );
+
+  // The inspector shows the primary selection
+  const inspectedPath = selectedPrimPaths[selectedPrimPaths.length - 1] ?? null;
+  const inspectedPrim = useMemo(
+    () => (inspectedPath ? findPrimByPath(stagePrims, inspectedPath) : null),
+    [stagePrims, inspectedPath]
+  );
+
+  // Write an inspector edit into the layer holding the property's strongest opinion
+  const handlePropertyChange = useCallback(
+    (property: InspectedProperty, values: number[]) => {
+      const { contents, error } = editPropertyValue(property, values, animationInfo.currentFrame, files);
+      if (error) {
+        alert(error);
+        return;
+      }
+      for (const [filePath, content] of contents) updateFileContent(filePath, content);
+    },
+    [animationInfo.currentFrame, files, updateFileContent]
+  );
+
+  // Open a layer of the stage at a range and select it
+  const handleOpenLocation = useCallback(
+    (filePath: string, range: IRange) => {
+      openStageLayer(filePath);
+      setEditorReveal({ filePath, range });
+    },
+    [openStageLayer]
+  );
+
+  // Open the layer an opinion is authored in and select it
+  const handleOpenSource = useCallback(
+    (filePath: string, range: SourceRange) => handleOpenLocation(filePath, toEditorRange(range)),
+    [handleOpenLocation]
+  );
+
+  // Switch variants without editing the layer text
+  const handleVariantSelect = useCallback(
+    (primPath: string, variantSetName: string, variantName: string) => {
+      if (!stagePath) return;
+      setVariantSelections((prev) => {
+        const selections = prev[stagePath] ?? NO_VARIANT_SELECTIONS;
+        return {
+          ...prev,
+          [stagePath]: { ...selections, [primPath]: { ...selections[primPath], [variantSetName]: variantName } },
+        };
+      });
+    },
+    [stagePath]
+  );
+
   const handleCreateFile = useCallback(() => {
     setShowNewFileDialog(true);
   }, []);
@@ -146,6 +312,16 @@ function App() {
     [createFile]
   );
 
+  // A layer created by a quick fix opens in a tab; the editor stays on the
+  // file being fixed
+  const handleCreateMissingFile = useCallback(
+    (path: string, content: string) => {
+      createFile(path, content);
+      if (activeFilePath) setActiveFile(activeFilePath);
+    },
+    [createFile, activeFilePath, setActiveFile]
+  );
+
   const existingPaths = useMemo(() => Array.from(files.keys()), [files]);
 
   if (isLoading) {
@@ -183,7 +359,7 @@ function App() {
           <FileTree
             files={files}
             activeFilePath={activeFilePath}
-            onFileSelect={openFile}
+            onFileSelect={handleFileSelect}
             onFileCreate={handleCreateFile}
             onFileDelete={deleteFile}
             onToggleFileActive={toggleFileActive}
@@ -193,17 +369,28 @@ function App() {
           <FileTabs
             openFiles={openFiles}
             activeFilePath={activeFilePath}
-            onTabSelect={setActiveFile}
+            onTabSelect={handleTabSelect}
             onTabClose={closeFile}
           />
           <div className="workspace-content">
             <div className="editor-panel">
-              {activeFile ? (
+              {activeFile?.blob ? (
+                <AssetPreview file={activeFile} />
+              ) : activeFile ? (
                 <UsdaEditor
                   key={activeFilePath}
                   initialValue={activeContent}
+                  value={activeContent}
                   onSave={handleSave}
                   onChange={handleChange}
+                  revealRange={editorReveal?.filePath === activeFilePath ? editorReveal.range : null}
+                  highlight={primHighlight?.filePath === activeFilePath ? primHighlight : null}
+                  onCursorOffsetChange={handleEditorCursor}
+                  files={files}
+                  filePath={activeFilePath}
+                  errors={parseErrors}
+                  onCreateFile={handleCreateMissingFile}
+                  onOpenLocation={handleOpenLocation}
                 />
               ) : (
                 <div className="no-file-message">
@@ -214,24 +401,40 @@ function App() {
             <div className="viewer-panel">
               <div className="viewer-content">
                 <UsdViewer
-                  usdaContent={activeContent}
-                  currentFilePath={activeFilePath ?? '/'}
+                  usdaContent={stageContent}
+                  currentFilePath={stagePath ?? '/'}
                   files={files}
+                  variantSelections={stageVariantSelections}
                   onCanvasReady={handleCanvasReady}
                   isRecording={isRecording}
                   onRecordingComplete={handleRecordingComplete}
                   onAnimationInfo={handleAnimationInfo}
                   onErrors={handleErrors}
                   onPrimsChange={handlePrimsChange}
+                  selectedPrimPaths={selectedPrimPaths}
+                  onPrimSelect={handlePrimPick}
+                  onFileEdit={updateFileContent}
                 />
                 {parseErrors.length > 0 && (
-                  <ErrorPanel errors={parseErrors} onClose={handleClearErrors} />
+                  <ErrorPanel
+                    errors={parseErrors}
+                    onClose={handleClearErrors}
+                    onErrorSelect={handleErrorSelect}
+                  />
                 )}
               </div>
               <StageHierarchy
                 prims={stagePrims}
-                selectedPrim={selectedPrimPath}
-                onPrimSelect={handlePrimSelect}
+                selectedPrims={selectedPrimPaths}
+                onPrimSelect={handlePrimPick}
+                onVariantSelect={handleVariantSelect}
+              />
+              <PropertyInspector
+                prim={inspectedPrim}
+                primPath={inspectedPath}
+                currentFrame={animationInfo.currentFrame}
+                onValueChange={handlePropertyChange}
+                onOpenSource={handleOpenSource}
               />
             </div>
           </div>
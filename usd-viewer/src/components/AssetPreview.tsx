@@ -0,0 +1,28 @@
+import { useEffect, useMemo } from 'react';
+import type { VirtualFile } from '../types/virtualFileSystem';
+
+interface AssetPreviewProps {
+  file: VirtualFile;
+}
+
+// Shown in place of the editor for binary assets. Browsers cannot display EXR,
+// so only its size is shown.
+export function AssetPreview({ file }: AssetPreviewProps) {
+  const isImage = /\.(png|jpe?g)$/i.test(file.name);
+  const url = useMemo(() => (file.blob && isImage ? URL.createObjectURL(file.blob) : null), [file.blob, isImage]);
+
+  useEffect(() => {
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [url]);
+
+  return (
+    <div className="asset-preview">
+      {url && <img src={url} alt={file.name} />}
+      <div className="asset-preview-info">
+        {file.path} ({((file.blob?.size ?? 0) / 1024).toFixed(1)} KB)
+      </div>
+    </div>
+  );
+}
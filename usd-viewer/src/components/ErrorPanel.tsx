@@ -4,12 +4,14 @@ import './ErrorPanel.css';
 interface ErrorPanelProps {
   errors: ParseError[];
   onClose: () => void;
+  onErrorSelect?: (error: ParseError) => void;
 }
 
 const errorTypeLabels: Record<ParseError['type'], string> = {
   missing_file: 'Missing File',
   circular_reference: 'Circular Reference',
   invalid_prim_path: 'Invalid Prim Path',
+  missing_default_prim: 'Missing Default Prim',
   parse_error: 'Parse Error',
 };
 
@@ -17,10 +19,19 @@ const errorTypeIcons: Record<ParseError['type'], string> = {
   missing_file: '📁',
   circular_reference: '🔄',
   invalid_prim_path: '🔍',
+  missing_default_prim: '💡',
   parse_error: '⚠️',
 };
 
-export function ErrorPanel({ errors, onClose }: ErrorPanelProps) {
+// "path:line:column" when the error points at a position in the file
+function formatLocation(error: ParseError): string {
+  if (error.line === undefined) return error.filePath;
+  return error.column !== undefined
+    ? `${error.filePath}:${error.line}:${error.column}`
+    : `${error.filePath}:${error.line}`;
+}
+
+export function ErrorPanel({ errors, onClose, onErrorSelect }: ErrorPanelProps) {
   if (errors.length === 0) {
     return null;
   }
@@ -36,16 +47,24 @@ export function ErrorPanel({ errors, onClose }: ErrorPanelProps) {
         </button>
       </div>
       <div className="error-panel-content">
-        {errors.map((error, index) => (
-          <div key={index} className={`error-item error-${error.type}`}>
-            <span className="error-icon">{errorTypeIcons[error.type]}</span>
-            <div className="error-details">
-              <span className="error-type">{errorTypeLabels[error.type]}</span>
-              <span className="error-message">{error.message}</span>
-              <span className="error-file">{error.filePath}</span>
+        {errors.map((error, index) => {
+          const isNavigable = error.line !== undefined && onErrorSelect !== undefined;
+          return (
+            <div
+              key={index}
+              className={`error-item error-${error.type} ${isNavigable ? 'navigable' : ''}`}
+              onClick={isNavigable ? () => onErrorSelect(error) : undefined}
+              title={isNavigable ? 'Go to location' : undefined}
+            >
+              <span className="error-icon">{errorTypeIcons[error.type]}</span>
+              <div className="error-details">
+                <span className="error-type">{errorTypeLabels[error.type]}</span>
+                <span className="error-message">{error.message}</span>
+                <span className="error-file">{formatLocation(error)}</span>
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
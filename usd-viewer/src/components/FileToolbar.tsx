@@ -1,5 +1,6 @@
 import { useRef, useCallback } from 'react';
 import { downloadAsFile, isValidUsdaFile } from '../utils/fileUtils';
+import { isBinaryAsset } from '../hooks/useVirtualFileSystem';
 
 interface FileToolbarProps {
   currentFilename: string;
@@ -36,13 +37,13 @@ export function FileToolbar({
       // Validate files
       const validFiles: File[] = [];
       for (const file of Array.from(files)) {
-        if (isValidUsdaFile(file.name)) {
+        if (isValidUsdaFile(file.name) || isBinaryAsset(file.name)) {
           validFiles.push(file);
         }
       }
 
       if (validFiles.length === 0) {
-        alert('Please select .usda or .usd files');
+        alert('Please select .usda or .usd files, or textures (.png, .jpg, .exr)');
         return;
       }
 
@@ -61,7 +62,7 @@ export function FileToolbar({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".usda,.usd"
+        accept=".usda,.usd,.png,.jpg,.jpeg,.exr"
         multiple
         onChange={handleFileChange}
         style={{ display: 'none' }}
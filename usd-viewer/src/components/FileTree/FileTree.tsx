@@ -66,7 +66,7 @@ function FileTreeItem({
           />
         )}
         <span className="file-tree-icon">
-          {node.isDirectory ? (isExpanded ? '📂' : '📁') : '📄'}
+          {node.isDirectory ? (isExpanded ? '📂' : '📁') : file?.blob ? '🖼' : '📄'}
         </span>
         <span className="file-tree-name">{node.name}</span>
         {!node.isDirectory && (
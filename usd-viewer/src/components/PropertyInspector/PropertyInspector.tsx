@@ -0,0 +1,206 @@
+import { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import type { ParsedPrim } from '../../parsers/usdaParser';
+import type { SourceRange } from '../../parsers/usdaLexer';
+import {
+  inspectMetadata,
+  inspectProperties,
+  type InspectedProperty,
+} from '../../parsers/properties';
+import { formatNumber } from '../../parsers/layerEdit';
+import { getFilename } from '../../hooks/useVirtualFileSystem';
+import './PropertyInspector.css';
+
+// A number field that writes its value on Enter or blur rather than per keystroke
+function NumberInput({ value, onCommit }: { value: number; onCommit: (value: number) => void }) {
+  const commit = (input: HTMLInputElement) => {
+    const next = Number(input.value);
+    if (input.value.trim() === '' || !Number.isFinite(next)) {
+      input.value = formatNumber(value);
+    } else if (next !== value) {
+      onCommit(next);
+    }
+  };
+
+  return (
+    <input
+      // Remounted when the value changes elsewhere, e.g. on another frame
+      key={value}
+      className="property-number"
+      type="number"
+      step="any"
+      defaultValue={formatNumber(value)}
+      onBlur={(e) => commit(e.currentTarget)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit(e.currentTarget);
+      }}
+    />
+  );
+}
+
+// Color values are linear, as the viewer renders them; the picker works in sRGB
+function ColorInput({ value, onCommit }: { value: number[]; onCommit: (value: number[]) => void }) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const hex = `#${new THREE.Color(value[0], value[1], value[2]).getHexString()}`;
+
+  // The native change event fires once the picker closes, not while dragging
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    const handleChange = () => {
+      const color = new THREE.Color(input.value);
+      onCommit([color.r, color.g, color.b, ...value.slice(3)]);
+    };
+    input.addEventListener('change', handleChange);
+    return () => input.removeEventListener('change', handleChange);
+  }, [value, onCommit]);
+
+  return <input ref={inputRef} key={hex} className="property-color" type="color" defaultValue={hex} />;
+}
+
+function ValueEditor({
+  property,
+  onCommit,
+}: {
+  property: InspectedProperty;
+  onCommit: (values: number[]) => void;
+}) {
+  const numbers = property.numbers!;
+  return (
+    <div className="property-editor">
+      {property.editor === 'color' && <ColorInput value={numbers} onCommit={onCommit} />}
+      {numbers.map((component, index) => (
+        <NumberInput
+          key={index}
+          value={component}
+          onCommit={(next) => onCommit(numbers.map((old, i) => (i === index ? next : old)))}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface SourceLinkProps {
+  layerPath?: string;
+  range: SourceRange;
+  onOpenSource?: (filePath: string, range: SourceRange) => void;
+}
+
+// The layer holding the winning opinion; clicking opens it at the opinion
+function SourceLink({ layerPath, range, onOpenSource }: SourceLinkProps) {
+  if (layerPath === undefined) return null;
+  return (
+    <button
+      className="property-source"
+      title={`${layerPath}:${range.start.line}`}
+      onClick={() => onOpenSource?.(layerPath, range)}
+    >
+      {getFilename(layerPath)}:{range.start.line}
+    </button>
+  );
+}
+
+interface PropertyInspectorProps {
+  prim: ParsedPrim | null;
+  primPath: string | null;
+  currentFrame: number;
+  onValueChange?: (property: InspectedProperty, values: number[]) => void;
+  onOpenSource?: (filePath: string, range: SourceRange) => void;
+}
+
+// Lists the selected prim's composed properties and metadata, each with the
+// layer that provides its strongest opinion. Numbers, vectors and colors are
+// editable.
+export function PropertyInspector({
+  prim,
+  primPath,
+  currentFrame,
+  onValueChange,
+  onOpenSource,
+}: PropertyInspectorProps) {
+  const properties = prim ? inspectProperties(prim, currentFrame) : [];
+  const metadata = prim ? inspectMetadata(prim) : [];
+  const animated = properties.some((property) => property.timeSampled);
+
+  return (
+    <div className="property-inspector">
+      <div className="property-inspector-header">
+        <span className="property-inspector-title">PROPERTIES</span>
+        {animated && <span className="property-inspector-frame">frame {formatNumber(currentFrame)}</span>}
+      </div>
+      {!prim || !primPath ? (
+        <div className="property-inspector-empty">No prim selected</div>
+      ) : (
+        <div className="property-inspector-content">
+          <div className="property-prim">
+            <span className="property-prim-path" title={primPath}>
+              {primPath}
+            </span>
+            <span className="property-prim-type">
+              {prim.specifier} {prim.typeName ?? '(typeless)'}
+            </span>
+          </div>
+
+          <div className="property-section-title">Attributes & relationships</div>
+          {properties.length === 0 && <div className="property-inspector-empty">None authored</div>}
+          {properties.map((property) => (
+            <div key={property.name} className="property-item">
+              <div className="property-row">
+                <span className="property-name" title={property.name}>
+                  {property.name}
+                </span>
+                {property.timeSampled && <span className="property-badge animated">animated</span>}
+                {property.uniform && <span className="property-badge">uniform</span>}
+                {property.custom && <span className="property-badge">custom</span>}
+              </div>
+              <div className="property-row">
+                <span className="property-type">{property.typeName}</span>
+                {property.editor ? (
+                  <ValueEditor property={property} onCommit={(values) => onValueChange?.(property, values)} />
+                ) : (
+                  <span className="property-value" title={property.value}>
+                    {property.value || '—'}
+                  </span>
+                )}
+              </div>
+              {property.connection && (
+                <div className="property-row">
+                  <span className="property-type">connect</span>
+                  <span className="property-value" title={property.connection}>
+                    {property.connection}
+                  </span>
+                </div>
+              )}
+              <SourceLink
+                layerPath={property.opinion.layerPath}
+                range={property.opinion.spec.range}
+                onOpenSource={onOpenSource}
+              />
+            </div>
+          ))}
+
+          <div className="property-section-title">Metadata</div>
+          {metadata.length === 0 && <div className="property-inspector-empty">None authored</div>}
+          {metadata.map((entry) => (
+            <div key={entry.key} className="property-item">
+              <div className="property-row">
+                <span className="property-name">{entry.key}</span>
+                {entry.listOp && <span className="property-badge">{entry.listOp}</span>}
+              </div>
+              <div className="property-row">
+                <span className="property-value" title={entry.value}>
+                  {entry.value}
+                </span>
+              </div>
+              <SourceLink
+                layerPath={entry.opinion.layerPath}
+                range={entry.opinion.spec.range}
+                onOpenSource={onOpenSource}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { OrthographicCamera, PerspectiveCamera } from '@react-three/drei';
+import { getCameraProjection, type UsdCamera } from '../parsers/cameras';
+import { computeWorldMatrix } from '../parsers/xformOps';
+
+interface StageCameraProps {
+  camera: UsdCamera;
+  currentFrame: number;
+}
+
+// Makes a stage Camera the viewport's camera. The viewport is expected to
+// have the film back's aspect, so only the vertical extent is set here.
+export function StageCamera({ camera, currentFrame }: StageCameraProps) {
+  const { projection, verticalFov, width, height, near, far } = getCameraProjection(camera, currentFrame);
+
+  return (
+    <group matrix={computeWorldMatrix(camera.xformChain, currentFrame)} matrixAutoUpdate={false}>
+      {projection === 'orthographic' ? (
+        <OrthographicCamera
+          key="orthographic"
+          makeDefault
+          manual
+          left={-width / 2}
+          right={width / 2}
+          top={height / 2}
+          bottom={-height / 2}
+          near={near}
+          far={far}
+        />
+      ) : (
+        <PerspectiveCamera key="perspective" makeDefault fov={verticalFov} near={near} far={far} />
+      )}
+    </group>
+  );
+}
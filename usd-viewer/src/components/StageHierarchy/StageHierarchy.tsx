@@ -1,12 +1,14 @@
-import { useState } from 'react';
-import type { ParsedPrim } from '../../parsers/usdaParser';
+import { useEffect, useRef, useState } from 'react';
+import { referenceKey, type ParsedPrim } from '../../parsers/usdaParser';
+import { applyListOp } from '../../parsers/listOp';
 import './StageHierarchy.css';
 
 interface PrimItemProps {
   prim: ParsedPrim;
   depth: number;
-  selectedPrim: string | null;
-  onSelect: (path: string) => void;
+  selectedPrims: string[];
+  onSelect: (path: string, additive: boolean) => void;
+  onVariantSelect: (primPath: string, variantSetName: string, variantName: string) => void;
   parentPath: string;
 }
 
@@ -22,6 +24,29 @@ function getPrimIcon(type: ParsedPrim['type']): { icon: string; className: strin
       return { icon: '⬭', className: 'cylinder' };
     case 'Cone':
       return { icon: '▲', className: 'cone' };
+    case 'Capsule':
+      return { icon: '⬮', className: 'capsule' };
+    case 'Plane':
+      return { icon: '▱', className: 'plane' };
+    case 'Mesh':
+      return { icon: '◆', className: 'mesh' };
+    case 'Points':
+      return { icon: '⁘', className: 'points' };
+    case 'BasisCurves':
+      return { icon: '∿', className: 'curves' };
+    case 'Material':
+      return { icon: '◐', className: 'material' };
+    case 'Shader':
+      return { icon: '◑', className: 'shader' };
+    case 'DistantLight':
+    case 'DomeLight':
+    case 'RectLight':
+    case 'SphereLight':
+    case 'DiskLight':
+    case 'CylinderLight':
+      return { icon: '☀', className: 'light' };
+    case 'Camera':
+      return { icon: '⎚', className: 'camera' };
     case 'Reference':
       return { icon: '↗', className: 'reference' };
     default:
@@ -29,6 +54,44 @@ function getPrimIcon(type: ParsedPrim['type']): { icon: string; className: strin
   }
 }
 
+// One dropdown per variant set, showing the composed selection
+function VariantSetSelectors({
+  prim,
+  primPath,
+  depth,
+  onVariantSelect,
+}: {
+  prim: ParsedPrim;
+  primPath: string;
+  depth: number;
+  onVariantSelect: PrimItemProps['onVariantSelect'];
+}) {
+  return (
+    <div className="prim-variant-sets" style={{ paddingLeft: `${depth * 12 + 30}px` }}>
+      {prim.variantSets?.map((variantSet) => {
+        const selection = prim.variantSelections?.[variantSet.name] ?? '';
+        return (
+          <label key={variantSet.name} className="variant-set">
+            <span className="variant-set-name">{variantSet.name}</span>
+            <select
+              className="variant-set-select"
+              value={selection}
+              onChange={(e) => onVariantSelect(primPath, variantSet.name, e.target.value)}
+            >
+              {selection === '' && <option value="">(none)</option>}
+              {Array.from(variantSet.variants.keys()).map((variantName) => (
+                <option key={variantName} value={variantName}>
+                  {variantName}
+                </option>
+              ))}
+            </select>
+          </label>
+        );
+      })}
+    </div>
+  );
+}
+
 // Component to show unresolved reference info
 function UnresolvedRefItem({
   assetPath,
@@ -64,36 +127,42 @@ function UnresolvedRefItem({
 function PrimItem({
   prim,
   depth,
-  selectedPrim,
+  selectedPrims,
   onSelect,
+  onVariantSelect,
   parentPath,
 }: PrimItemProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const itemRef = useRef<HTMLDivElement>(null);
 
   const primPath = `${parentPath}/${prim.name}`;
-  const allChildren = [
-    ...(prim.children || []),
-    ...(prim.resolvedChildren || []),
-  ];
-  const hasReferences = (prim.references?.length ?? 0) > 0;
-  const hasPayloads = (prim.payloads?.length ?? 0) > 0;
-
-  // Check if references are unresolved (has references but no resolvedChildren from them)
-  const unresolvedRefs = prim.references?.filter(() => {
-    // If there are references but no resolvedChildren, they're unresolved
-    return (prim.resolvedChildren?.length ?? 0) === 0;
-  }) ?? [];
-
-  const unresolvedPayloads = prim.payloads?.filter(() => {
-    return (prim.resolvedChildren?.length ?? 0) === 0;
-  }) ?? [];
+  const isSelected = selectedPrims.includes(primPath);
+
+  // Expand to reveal prims selected elsewhere (e.g. picked in the viewport)
+  const hiddenSelection = selectedPrims.filter((path) => path.startsWith(`${primPath}/`)).join('\n');
+  const [revealedSelection, setRevealedSelection] = useState(hiddenSelection);
+  if (hiddenSelection !== revealedSelection) {
+    setRevealedSelection(hiddenSelection);
+    if (hiddenSelection) setIsExpanded(true);
+  }
+
+  useEffect(() => {
+    if (isSelected) itemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isSelected]);
+  const allChildren = prim.children || [];
+  const hasReferences = applyListOp(prim.references, referenceKey).length > 0;
+  const hasPayloads = applyListOp(prim.payloads, referenceKey).length > 0;
+
+  // Arcs whose file or target prim could not be found during composition
+  const unresolvedRefs = prim.unresolvedReferences ?? [];
+  const unresolvedPayloads = prim.unresolvedPayloads ?? [];
 
   const hasChildren = allChildren.length > 0 || unresolvedRefs.length > 0 || unresolvedPayloads.length > 0;
 
   const { icon, className } = getPrimIcon(prim.type);
 
-  const handleClick = () => {
-    onSelect(primPath);
+  const handleClick = (e: React.MouseEvent) => {
+    onSelect(primPath, e.shiftKey);
   };
 
   const handleExpandClick = (e: React.MouseEvent) => {
@@ -104,7 +173,8 @@ function PrimItem({
   return (
     <div className="prim-item-container">
       <div
-        className={`prim-item ${primPath === selectedPrim ? 'selected' : ''}`}
+        ref={itemRef}
+        className={`prim-item ${isSelected ? 'selected' : ''} ${prim.specifier !== 'def' ? 'undefined-prim' : ''}`}
         style={{ paddingLeft: `${depth * 12 + 8}px` }}
         onClick={handleClick}
       >
@@ -119,9 +189,20 @@ function PrimItem({
           <span className="prim-name">{prim.name}</span>
           <span className="prim-type">{prim.type}</span>
         </span>
+        {prim.specifier !== 'def' && (
+          <span className={`prim-badge ${prim.specifier}`}>{prim.specifier}</span>
+        )}
         {hasReferences && <span className="prim-badge ref">ref</span>}
         {hasPayloads && <span className="prim-badge payload">payload</span>}
       </div>
+      {(prim.variantSets?.length ?? 0) > 0 && (
+        <VariantSetSelectors
+          prim={prim}
+          primPath={primPath}
+          depth={depth}
+          onVariantSelect={onVariantSelect}
+        />
+      )}
       {hasChildren && isExpanded && (
         <div className="prim-children">
           {/* Show unresolved references */}
@@ -144,14 +225,15 @@ function PrimItem({
               depth={depth + 1}
             />
           ))}
-          {/* Show resolved children */}
+          {/* Show composed children */}
           {allChildren.map((child, index) => (
             <PrimItem
               key={`${child.name}-${index}`}
               prim={child}
               depth={depth + 1}
-              selectedPrim={selectedPrim}
+              selectedPrims={selectedPrims}
               onSelect={onSelect}
+              onVariantSelect={onVariantSelect}
               parentPath={primPath}
             />
           ))}
@@ -163,17 +245,23 @@ function PrimItem({
 
 interface StageHierarchyProps {
   prims: ParsedPrim[];
-  selectedPrim?: string | null;
-  onPrimSelect?: (path: string) => void;
+  selectedPrims?: string[];
+  onPrimSelect?: (path: string, additive: boolean) => void; // additive: shift-click
+  onVariantSelect?: (primPath: string, variantSetName: string, variantName: string) => void;
 }
 
 export function StageHierarchy({
   prims,
-  selectedPrim = null,
+  selectedPrims = [],
   onPrimSelect,
+  onVariantSelect,
 }: StageHierarchyProps) {
-  const handleSelect = (path: string) => {
-    onPrimSelect?.(path);
+  const handleSelect = (path: string, additive: boolean) => {
+    onPrimSelect?.(path, additive);
+  };
+
+  const handleVariantSelect = (primPath: string, variantSetName: string, variantName: string) => {
+    onVariantSelect?.(primPath, variantSetName, variantName);
   };
 
   return (
@@ -190,8 +278,9 @@ export function StageHierarchy({
               key={`${prim.name}-${index}`}
               prim={prim}
               depth={0}
-              selectedPrim={selectedPrim}
+              selectedPrims={selectedPrims}
               onSelect={handleSelect}
+              onVariantSelect={handleVariantSelect}
               parentPath=""
             />
           ))
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Environment } from '@react-three/drei';
+import * as THREE from 'three';
+import { RectAreaLightUniformsLib } from 'three/examples/jsm/lights/RectAreaLightUniformsLib.js';
+import type { UsdLight } from '../parsers/lights';
+import { computeWorldMatrix } from '../parsers/xformOps';
+
+RectAreaLightUniformsLib.init();
+
+// UsdLux lights emit along their local -Z axis, as three.js lights do once
+// their target sits in front of them
+const FORWARD: [number, number, number] = [0, 0, -1];
+
+// Convert the light's radiance to three.js' physical units: candela for point
+// and spot lights, lux for directional lights. A normalized light spreads its
+// radiance over its area; lights without area emit their radiance as is.
+function emittedIntensity(light: UsdLight, projectedArea: number, area: number): number {
+  if (projectedArea <= 0) return light.radiance;
+  return (light.radiance * projectedArea) / (light.normalize ? area : 1);
+}
+
+// The cone of a disk of the light's angular diameter, seen from the lit point
+function distantLightSolidAngle(light: UsdLight): number {
+  const halfAngle = THREE.MathUtils.degToRad(light.angle) / 2;
+  return 2 * Math.PI * (1 - Math.cos(halfAngle));
+}
+
+// Area and on-axis projected area of the light's emitting surface
+function emitterAreas(light: UsdLight): { projectedArea: number; area: number } {
+  const { radius, width, height, length } = light;
+  switch (light.type) {
+    case 'SphereLight':
+      return { projectedArea: Math.PI * radius * radius, area: 4 * Math.PI * radius * radius };
+    case 'DiskLight':
+      return { projectedArea: Math.PI * radius * radius, area: Math.PI * radius * radius };
+    case 'RectLight':
+      return { projectedArea: width * height, area: width * height };
+    case 'CylinderLight':
+      return { projectedArea: 2 * radius * length, area: 2 * Math.PI * radius * length };
+    default:
+      return { projectedArea: 0, area: 0 };
+  }
+}
+
+// Directional and spot lights aim at a target, placed in front of the light so
+// it follows the light's transform
+function AimedLight({ light, intensity }: { light: UsdLight; intensity: number }) {
+  const [target, setTarget] = useState<THREE.Object3D | null>(null);
+  const color = new THREE.Color(...light.color);
+
+  return (
+    <>
+      <object3D ref={setTarget} position={FORWARD} />
+      {target && light.type === 'DistantLight' && (
+        <directionalLight position={[0, 0, 0]} color={color} intensity={intensity} target={target} />
+      )}
+      {target && light.type !== 'DistantLight' && light.cone && (
+        <spotLight
+          position={[0, 0, 0]}
+          color={color}
+          intensity={intensity}
+          angle={THREE.MathUtils.degToRad(light.cone.angle)}
+          penumbra={THREE.MathUtils.clamp(light.cone.softness, 0, 1)}
+          decay={2}
+          target={target}
+        />
+      )}
+    </>
+  );
+}
+
+function StageLight({ light }: { light: UsdLight }) {
+  const color = new THREE.Color(...light.color);
+
+  if (light.type === 'DistantLight') {
+    const solidAngle = distantLightSolidAngle(light);
+    return <AimedLight light={light} intensity={emittedIntensity(light, solidAngle, solidAngle)} />;
+  }
+
+  const { projectedArea, area } = emitterAreas(light);
+  if (light.cone) {
+    return <AimedLight light={light} intensity={emittedIntensity(light, projectedArea, area)} />;
+  }
+
+  // Area lights take their radiance directly; a disk becomes a square of the same area
+  if (light.type === 'RectLight' || light.type === 'DiskLight') {
+    const side = Math.sqrt(area);
+    return (
+      <rectAreaLight
+        color={color}
+        intensity={light.normalize && area > 0 ? light.radiance / area : light.radiance}
+        width={light.type === 'RectLight' ? light.width : side}
+        height={light.type === 'RectLight' ? light.height : side}
+      />
+    );
+  }
+
+  // Spheres and cylinders light their surroundings like points
+  return <pointLight color={color} intensity={emittedIntensity(light, projectedArea, area)} decay={2} />;
+}
+
+// Orientation of a DomeLight's latlong map in the three.js world
+function environmentRotation(
+  light: UsdLight,
+  currentFrame: number,
+  stageRotation: [number, number, number]
+): THREE.Euler {
+  const rotation = new THREE.Matrix4()
+    .makeRotationFromEuler(new THREE.Euler(...stageRotation))
+    .multiply(new THREE.Matrix4().extractRotation(computeWorldMatrix(light.xformChain, currentFrame)));
+  return new THREE.Euler().setFromRotationMatrix(rotation);
+}
+
+interface StageLightsProps {
+  lights: UsdLight[];
+  currentFrame: number;
+  environment: THREE.Texture | null; // The first textured DomeLight's latlong map
+  stageRotation: [number, number, number]; // Up-axis rotation of the stage root
+}
+
+// The stage's UsdLux lights, each placed by its prim's transform. A DomeLight
+// lights the scene through its texture, or uniformly with its color when it
+// has none; only the first textured DomeLight is used.
+export function StageLights({ lights, currentFrame, environment, stageRotation }: StageLightsProps) {
+  const environmentLight = lights.find((light) => light.type === 'DomeLight' && light.textureFile);
+
+  return (
+    <>
+      {lights.map((light) => {
+        if (light.type !== 'DomeLight') {
+          return (
+            <group
+              key={light.path}
+              matrix={computeWorldMatrix(light.xformChain, currentFrame)}
+              matrixAutoUpdate={false}
+            >
+              <StageLight light={light} />
+            </group>
+          );
+        }
+        if (light.textureFile) return null;
+        // Irradiance from a uniform dome is pi times its radiance
+        return (
+          <ambientLight
+            key={light.path}
+            color={new THREE.Color(...light.color)}
+            intensity={Math.PI * light.radiance}
+          />
+        );
+      })}
+      {environment && environmentLight && (
+        <Environment
+          map={environment}
+          environmentIntensity={environmentLight.radiance}
+          environmentRotation={environmentRotation(environmentLight, currentFrame, stageRotation)}
+        />
+      )}
+    </>
+  );
+}
@@ -1,86 +1,246 @@
 import { useRef, useMemo, useEffect, useState } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, Grid } from '@react-three/drei';
+import { Canvas, useFrame, useThree, type ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, Grid, TransformControls } from '@react-three/drei';
 import * as THREE from 'three';
 import type { VirtualFile, ParseError } from '../types/virtualFileSystem';
 import {
   type ParsedPrim,
+  type LayerMetadata,
+  isDefinedPrim,
   interpolateValue,
   interpolateVector3,
+  interpolateVector3Array,
   getTimeRange,
+  getTimeCodesPerSecond,
+  getFramesPerSecond,
 } from '../parsers/usdaParser';
-import { parseAndResolve } from '../parsers/referenceResolver';
+import { parseAndResolve, type VariantSelections } from '../parsers/referenceResolver';
+import { errorLocation } from '../parsers/layerStack';
+import { computeLocalTransform, computeWorldMatrix } from '../parsers/xformOps';
+import { editTransform, getPivotFrame, type TransformMode } from '../parsers/xformEdit';
+import {
+  collectMaterials,
+  surfaceTexCoordPrimvar,
+  type PreviewSurface,
+  type SurfaceTexture,
+  type TexturedInput,
+} from '../parsers/materials';
+import { collectLights, type UsdLight } from '../parsers/lights';
+import { collectCameras, getCameraProjection, type UsdCamera } from '../parsers/cameras';
+import { COLOR_INPUTS, useEnvironmentTexture, useTextures } from '../hooks/useTextures';
+import { textureKey } from '../utils/textureLoader';
+import { buildMeshGeometry } from '../utils/meshGeometry';
+import { buildCurveLinesGeometry, buildCurveTubesGeometry, evaluateCurves } from '../utils/curveGeometry';
+import { buildPointsGeometry, createPointsMaterial } from '../utils/pointsGeometry';
+import { StageLights } from './StageLights';
+import { StageCamera } from './StageCamera';
+
+// three.js builds cylinders, cones and capsules along Y; USD's fallback axis is Z
+const AXIS_ROTATIONS: Record<'X' | 'Y' | 'Z', [number, number, number]> = {
+  X: [0, 0, -Math.PI / 2],
+  Y: [0, 0, 0],
+  Z: [Math.PI / 2, 0, 0],
+};
+
+// three.js planes face +Z; a USD plane faces along its axis
+const PLANE_AXIS_ROTATIONS: Record<'X' | 'Y' | 'Z', [number, number, number]> = {
+  X: [0, Math.PI / 2, 0],
+  Y: [-Math.PI / 2, 0, 0],
+  Z: [0, 0, 0],
+};
+
+interface SurfaceMaterialProps {
+  surface?: PreviewSurface;
+  textures: Map<string, THREE.Texture>; // Loaded textures by textureKey
+  color: [number, number, number]; // displayColor, used when no material is bound
+  side?: THREE.Side;
+}
+
+// The texture's scale for the channel it is read through; three.js multiplies maps by the factor
+function channelScale(texture: SurfaceTexture): number {
+  return texture.scale[{ rgb: 0, r: 0, g: 1, b: 2, a: 3 }[texture.channel]];
+}
+
+// USD decodes a normal map as texture * scale + bias, three.js as (texture * 2 - 1) * normalScale.
+// A map in that encoding keeps its scale; any other keeps three.js's decoding.
+function normalScale(texture: SurfaceTexture | undefined): THREE.Vector2 {
+  const [scaleX, scaleY] = texture?.scale ?? [2, 2];
+  const [biasX, biasY] = texture?.bias ?? [-1, -1];
+  const standard = Math.abs(biasX + scaleX / 2) < 1e-6 && Math.abs(biasY + scaleY / 2) < 1e-6;
+  return standard ? new THREE.Vector2(scaleX / 2, scaleY / 2) : new THREE.Vector2(1, 1);
+}
+
+// A bound UsdPreviewSurface maps onto MeshPhysicalMaterial; unbound prims keep displayColor.
+// Textured inputs use the texture's scale as the factor; bias is applied to normal maps only.
+function SurfaceMaterial({ surface, textures, color, side = THREE.FrontSide }: SurfaceMaterialProps) {
+  if (!surface) {
+    return <meshStandardMaterial color={new THREE.Color(color[0], color[1], color[2])} side={side} />;
+  }
+
+  const map = (input: TexturedInput) => {
+    const texture = surface.textures[input];
+    return texture && textures.get(textureKey(texture, COLOR_INPUTS.has(input)));
+  };
+  const factor = (input: 'metallic' | 'roughness' | 'opacity' | 'clearcoat' | 'clearcoatRoughness') => {
+    const texture = surface.textures[input];
+    return texture && map(input) ? channelScale(texture) : surface[input];
+  };
+  const alphaMap = map('opacity');
+
+  const maps = {
+    map: map('diffuseColor'),
+    emissiveMap: map('emissiveColor'),
+    metalnessMap: map('metallic'),
+    roughnessMap: map('roughness'),
+    alphaMap,
+    normalMap: map('normal'),
+    clearcoatMap: map('clearcoat'),
+    clearcoatRoughnessMap: map('clearcoatRoughness'),
+  };
+  // A texture's scale stands in for the color it replaces
+  const diffuse = surface.textures.diffuseColor;
+  const emissive = surface.textures.emissiveColor;
+  const diffuseColor = diffuse && maps.map ? diffuse.scale.slice(0, 3) : surface.diffuseColor;
+  const emissiveColor = emissive && maps.emissiveMap ? emissive.scale.slice(0, 3) : surface.emissiveColor;
+
+  // Adding or removing a map needs a new shader program, so the material is recreated
+  const mapsKey = Object.entries(maps)
+    .filter(([, texture]) => texture)
+    .map(([name, texture]) => `${name}:${texture!.uuid}`)
+    .join(',');
+
+  return (
+    <meshPhysicalMaterial
+      key={mapsKey}
+      {...maps}
+      color={new THREE.Color(...diffuseColor)}
+      emissive={new THREE.Color(...emissiveColor)}
+      metalness={factor('metallic')}
+      roughness={factor('roughness')}
+      opacity={factor('opacity')}
+      transparent={factor('opacity') < 1 || alphaMap !== undefined}
+      normalScale={normalScale(surface.textures.normal)}
+      ior={surface.ior}
+      clearcoat={factor('clearcoat')}
+      clearcoatRoughness={factor('clearcoatRoughness')}
+      side={side}
+    />
+  );
+}
 
 interface PrimMeshProps {
   prim: ParsedPrim;
   currentFrame: number;
-  parentPosition?: [number, number, number];
-  parentRotation?: [number, number, number];
-  parentScale?: [number, number, number];
+  materials: Map<string, PreviewSurface>; // By material path
+  textures: Map<string, THREE.Texture>;
+  parentWorldMatrix?: THREE.Matrix4; // Relative to the stage root
+  inheritedBinding?: string; // Nearest ancestor's material:binding
+  parentPath?: string;
+  onPick?: (path: string, additive: boolean) => void;
+  transformOverride?: TransformOverride; // A gizmo drag in progress
+}
+
+// The local matrix of a prim being dragged with the gizmo, shown until the
+// edit is written back and parsed
+interface TransformOverride {
+  path: string;
+  matrix: THREE.Matrix4;
 }
 
+const IDENTITY_MATRIX = new THREE.Matrix4();
+
+// Pointer travel (in pixels) beyond which a click is an orbit drag rather than a pick
+const PICK_DRAG_TOLERANCE = 4;
+
 function PrimMesh({
   prim,
   currentFrame,
-  parentPosition = [0, 0, 0],
-  parentRotation = [0, 0, 0],
-  parentScale = [1, 1, 1],
+  materials,
+  textures,
+  parentWorldMatrix = IDENTITY_MATRIX,
+  inheritedBinding,
+  parentPath = '',
+  onPick,
+  transformOverride,
 }: PrimMeshProps) {
   const meshRef = useRef<THREE.Mesh>(null);
+  const primPath = `${parentPath}/${prim.name}`;
 
-  // Get position from timeSamples or static value
-  const primPosition = prim.positionTimeSamples
-    ? interpolateVector3(prim.positionTimeSamples, currentFrame)
-    : prim.position ?? [0, 0, 0];
-
-  const position: [number, number, number] = [
-    parentPosition[0] + primPosition[0],
-    parentPosition[1] + primPosition[1],
-    parentPosition[2] + primPosition[2],
-  ];
-
-  // Get rotation from timeSamples or static value
-  const primRotation = prim.rotationTimeSamples
-    ? interpolateVector3(prim.rotationTimeSamples, currentFrame)
-    : prim.rotation ?? [0, 0, 0];
-
-  const rotation: [number, number, number] = [
-    parentRotation[0] + primRotation[0],
-    parentRotation[1] + primRotation[1],
-    parentRotation[2] + primRotation[2],
-  ];
-
-  // Get scale from timeSamples or static value
-  const primScale = prim.scaleTimeSamples
-    ? interpolateVector3(prim.scaleTimeSamples, currentFrame)
-    : prim.scale ?? [1, 1, 1];
-
-  const scale: [number, number, number] = [
-    parentScale[0] * primScale[0],
-    parentScale[1] * primScale[1],
-    parentScale[2] * primScale[2],
-  ];
+  // The nearest object under the pointer reports this prim's path
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > PICK_DRAG_TOLERANCE) return;
+    e.stopPropagation();
+    onPick?.(primPath, e.shiftKey);
+  };
+
+  // A prim's own binding wins over the one inherited from its ancestors
+  const materialBinding = prim.materialBinding ?? inheritedBinding;
+  const surface = materialBinding ? materials.get(materialBinding) : undefined;
+  const uvPrimvar = surfaceTexCoordPrimvar(surface);
+
+  // The group holds the prim's local matrix and inherits its parent through
+  // the scene graph. A prim that resets the xform stack cancels its parent's
+  // world matrix instead.
+  const { matrix: authoredMatrix, resetsXformStack } = computeLocalTransform(prim, currentFrame);
+  const localMatrix = transformOverride?.path === primPath ? transformOverride.matrix : authoredMatrix;
+  const worldMatrix = resetsXformStack
+    ? localMatrix
+    : new THREE.Matrix4().multiplyMatrices(parentWorldMatrix, localMatrix);
+  const groupMatrix = resetsXformStack
+    ? parentWorldMatrix.clone().invert().multiply(localMatrix)
+    : localMatrix;
 
   // Get color from timeSamples or static value
   const color = prim.colorTimeSamples
-    ? interpolateVector3(prim.colorTimeSamples, currentFrame)
+    ? interpolateVector3(prim.colorTimeSamples, currentFrame, prim.timeSampleOffsets?.colorTimeSamples)
     : prim.color ?? [0.6, 0.6, 0.6];
 
   // Get radius from timeSamples or static value
   const radius = prim.radiusTimeSamples
-    ? interpolateValue(prim.radiusTimeSamples, currentFrame)
+    ? interpolateValue(prim.radiusTimeSamples, currentFrame, prim.timeSampleOffsets?.radiusTimeSamples)
     : prim.radius;
 
   // Get size from timeSamples or static value
   const size = prim.sizeTimeSamples
-    ? interpolateValue(prim.sizeTimeSamples, currentFrame)
+    ? interpolateValue(prim.sizeTimeSamples, currentFrame, prim.timeSampleOffsets?.sizeTimeSamples)
     : prim.size;
 
   // Get height from timeSamples or static value
   const height = prim.heightTimeSamples
-    ? interpolateValue(prim.heightTimeSamples, currentFrame)
+    ? interpolateValue(prim.heightTimeSamples, currentFrame, prim.timeSampleOffsets?.heightTimeSamples)
     : prim.height;
 
+  // Get mesh points from timeSamples or static value
+  const points = prim.pointsTimeSamples
+    ? interpolateVector3Array(prim.pointsTimeSamples, currentFrame, prim.timeSampleOffsets?.pointsTimeSamples)
+    : prim.points;
+
+  // Curves with widths are drawn as tubes, otherwise as lines
+  const curvesAsTubes = prim.type === 'BasisCurves' && (prim.widths?.length ?? 0) > 0;
+
+  // Geometry built from points: meshes, point sprites and curves
+  const pointBasedGeometry = useMemo(() => {
+    if (!points) return null;
+    switch (prim.type) {
+      case 'Mesh':
+        return buildMeshGeometry(prim, points, uvPrimvar);
+      case 'Points':
+        return buildPointsGeometry(points, prim.widths);
+      case 'BasisCurves': {
+        const curves = evaluateCurves(prim, points);
+        return curvesAsTubes ? buildCurveTubesGeometry(curves) : buildCurveLinesGeometry(curves);
+      }
+      default:
+        return null;
+    }
+  }, [prim, points, curvesAsTubes, uvPrimvar]);
+
+  useEffect(() => () => pointBasedGeometry?.dispose(), [pointBasedGeometry]);
+
+  const pointsMaterial = useMemo(() => (prim.type === 'Points' ? createPointsMaterial() : null), [prim.type]);
+  useEffect(() => () => pointsMaterial?.dispose(), [pointsMaterial]);
+  const viewportHeight = useThree((state) => state.size.height * state.viewport.dpr);
+
   const geometry = useMemo(() => {
     switch (prim.type) {
       case 'Sphere':
@@ -94,32 +254,193 @@ function PrimMesh({
         );
       case 'Cone':
         return <coneGeometry args={[radius ?? 0.5, height ?? 1, 32]} />;
+      case 'Capsule':
+        return <capsuleGeometry args={[radius ?? 0.5, height ?? 1, 8, 32]} />;
+      case 'Plane':
+        return <planeGeometry args={[prim.width ?? 2, prim.length ?? 2]} />;
+      case 'Mesh':
+        return pointBasedGeometry && <primitive object={pointBasedGeometry} attach="geometry" />;
       default:
         return null;
     }
-  }, [prim.type, radius, size, height]);
+  }, [prim.type, prim.width, prim.length, radius, size, height, pointBasedGeometry]);
+
+  const shapeRotation =
+    prim.type === 'Plane'
+      ? PLANE_AXIS_ROTATIONS[prim.axis ?? 'Z']
+      : prim.type === 'Cylinder' || prim.type === 'Cone' || prim.type === 'Capsule'
+        ? AXIS_ROTATIONS[prim.axis ?? 'Z']
+        : undefined;
 
-  // Combine regular children and resolved children from references
-  const allChildren = [
-    ...(prim.children || []),
-    ...(prim.resolvedChildren || []),
-  ];
+  // Abstract (class) and override-only (over) prims are not rendered
+  const allChildren = (prim.children || []).filter(isDefinedPrim);
 
   return (
-    <group position={position} rotation={rotation} scale={scale}>
+    // Named by prim path so the selection can find the prim's objects
+    <group name={primPath} matrix={groupMatrix} matrixAutoUpdate={false}>
       {geometry && (
-        <mesh ref={meshRef}>
+        <mesh ref={meshRef} rotation={shapeRotation} onClick={handleClick}>
           {geometry}
-          <meshStandardMaterial color={new THREE.Color(color[0], color[1], color[2])} />
+          <SurfaceMaterial
+            surface={surface}
+            textures={textures}
+            color={color}
+            side={prim.doubleSided ? THREE.DoubleSide : THREE.FrontSide}
+          />
+        </mesh>
+      )}
+      {prim.type === 'Points' && pointBasedGeometry && pointsMaterial && (
+        <points geometry={pointBasedGeometry} onClick={handleClick}>
+          <primitive
+            object={pointsMaterial}
+            attach="material"
+            uniforms-color-value={new THREE.Color(...(surface?.diffuseColor ?? color))}
+            uniforms-viewportHeight-value={viewportHeight}
+          />
+        </points>
+      )}
+      {prim.type === 'BasisCurves' && pointBasedGeometry && !curvesAsTubes && (
+        <lineSegments geometry={pointBasedGeometry} onClick={handleClick}>
+          <lineBasicMaterial color={new THREE.Color(...(surface?.diffuseColor ?? color))} />
+        </lineSegments>
+      )}
+      {prim.type === 'BasisCurves' && pointBasedGeometry && curvesAsTubes && (
+        <mesh geometry={pointBasedGeometry} onClick={handleClick}>
+          <SurfaceMaterial surface={surface} textures={textures} color={color} />
         </mesh>
       )}
       {allChildren.map((child, index) => (
-        <PrimMesh key={`${child.name}-${index}`} prim={child} currentFrame={currentFrame} />
+        <PrimMesh
+          key={`${child.name}-${index}`}
+          prim={child}
+          currentFrame={currentFrame}
+          materials={materials}
+          textures={textures}
+          parentWorldMatrix={worldMatrix}
+          inheritedBinding={materialBinding}
+          parentPath={primPath}
+          onPick={onPick}
+          transformOverride={transformOverride}
+        />
       ))}
     </group>
   );
 }
 
+const SELECTION_COLOR = new THREE.Color('#ffaa00');
+
+// A box around one selected prim and its descendants, refit every frame so
+// it follows animation
+function SelectionBox({ path }: { path: string }) {
+  const helperRef = useRef<THREE.Box3Helper>(null);
+  const box = useMemo(() => new THREE.Box3(), []);
+  const scene = useThree((state) => state.scene);
+
+  useFrame(() => {
+    const helper = helperRef.current;
+    if (!helper) return;
+    const object = scene.getObjectByName(path);
+    if (object) helper.box.setFromObject(object);
+    else helper.box.makeEmpty();
+    helper.visible = !helper.box.isEmpty();
+  });
+
+  return <box3Helper ref={helperRef} args={[box, SELECTION_COLOR]} />;
+}
+
+// The rendered prims leading to a path (e.g., "/World/Cube"), root first
+function findPrimChain(prims: ParsedPrim[], path: string): ParsedPrim[] | undefined {
+  const chain: ParsedPrim[] = [];
+  let level = prims;
+  for (const name of path.split('/').filter(Boolean)) {
+    const prim = level.filter(isDefinedPrim).find((candidate) => candidate.name === name);
+    if (!prim) return undefined;
+    chain.push(prim);
+    level = prim.children ?? [];
+  }
+  return chain.length ? chain : undefined;
+}
+
+interface TransformGizmoProps {
+  chain: ParsedPrim[]; // The edited prim and its ancestors, root first
+  path: string;
+  mode: TransformMode;
+  currentFrame: number;
+  stageRotation: [number, number, number];
+  onDrag: (override: TransformOverride) => void;
+  onCommit: (pivotFrame: THREE.Matrix4) => void;
+  onGrab: () => void;
+}
+
+// Moves a proxy object placed at the prim's pivot, in its parent's space. The
+// prim follows the proxy while dragging; the edit is committed on release.
+function TransformGizmo({
+  chain,
+  path,
+  mode,
+  currentFrame,
+  stageRotation,
+  onDrag,
+  onCommit,
+  onGrab,
+}: TransformGizmoProps) {
+  const [proxy, setProxy] = useState<THREE.Object3D | null>(null);
+  const movedRef = useRef(false);
+  const prim = chain[chain.length - 1];
+
+  const { parentMatrix, position, quaternion, scale } = useMemo(() => {
+    const { resetsXformStack } = computeLocalTransform(prim, currentFrame);
+    const pivotFrame = getPivotFrame(prim, currentFrame);
+    const [p, q, s] = [new THREE.Vector3(), new THREE.Quaternion(), new THREE.Vector3()];
+    pivotFrame.decompose(p, q, s);
+    return {
+      parentMatrix: resetsXformStack ? IDENTITY_MATRIX : computeWorldMatrix(chain.slice(0, -1), currentFrame),
+      // Plain arrays so re-renders during a drag do not move the proxy back
+      position: p.toArray(),
+      quaternion: q.toArray(),
+      scale: s.toArray(),
+    };
+  }, [chain, prim, currentFrame]);
+
+  // The proxy's matrix is the edited pivot frame; the prim's local matrix
+  // keeps its offset from the pivot frame
+  const handleObjectChange = () => {
+    if (!proxy) return;
+    movedRef.current = true;
+    proxy.updateMatrix();
+    const pivotFrame = getPivotFrame(prim, currentFrame);
+    const { matrix } = computeLocalTransform(prim, currentFrame);
+    onDrag({ path, matrix: proxy.matrix.clone().multiply(pivotFrame.invert()).multiply(matrix) });
+  };
+
+  // A click on the gizmo without dragging leaves the text alone
+  const handleMouseUp = () => {
+    if (!proxy || !movedRef.current) return;
+    movedRef.current = false;
+    proxy.updateMatrix();
+    onCommit(proxy.matrix.clone());
+  };
+
+  return (
+    <>
+      <group rotation={stageRotation}>
+        <group matrix={parentMatrix} matrixAutoUpdate={false}>
+          <object3D ref={setProxy} position={position} quaternion={quaternion} scale={scale} />
+        </group>
+      </group>
+      {proxy && (
+        <TransformControls
+          object={proxy}
+          mode={mode}
+          onMouseDown={onGrab}
+          onObjectChange={handleObjectChange}
+          onMouseUp={handleMouseUp}
+        />
+      )}
+    </>
+  );
+}
+
 function AutoRotateCamera() {
   useFrame(({ clock, camera }) => {
     if (!camera.userData.userInteracted) {
@@ -135,48 +456,258 @@ function AutoRotateCamera() {
 interface SceneProps {
   prims: ParsedPrim[];
   currentFrame: number;
+  metadata: LayerMetadata;
+  materials: Map<string, PreviewSurface>;
+  textures: Map<string, THREE.Texture>;
+  lights: UsdLight[];
+  environment: THREE.Texture | null;
+  lighting: LightingMode;
+  activeCamera?: UsdCamera; // Stage camera the viewport looks through; the free camera otherwise
+  selectedPrimPaths: string[];
+  onPick?: (path: string, additive: boolean) => void;
+  gizmoMode: TransformMode;
+  onTransformCommit?: (prim: ParsedPrim, pivotFrame: THREE.Matrix4) => void;
+  onGizmoGrab?: () => void;
 }
 
-function Scene({ prims, currentFrame }: SceneProps) {
+// Rotation that brings a Z-up stage into three.js' Y-up world
+const Z_UP_ROTATION: [number, number, number] = [-Math.PI / 2, 0, 0];
+
+function Scene({
+  prims,
+  currentFrame,
+  metadata,
+  materials,
+  textures,
+  lights,
+  environment,
+  lighting,
+  activeCamera,
+  selectedPrimPaths,
+  onPick,
+  gizmoMode,
+  onTransformCommit,
+  onGizmoGrab,
+}: SceneProps) {
+  const [transformOverride, setTransformOverride] = useState<TransformOverride>();
+  // Remounts the gizmo after a commit so its proxy starts from the parsed result
+  const [gizmoKey, setGizmoKey] = useState(0);
+
+  // The gizmo edits the primary (last) selection
+  const gizmoPath = selectedPrimPaths[selectedPrimPaths.length - 1];
+  const gizmoChain = useMemo(() => (gizmoPath ? findPrimChain(prims, gizmoPath) : undefined), [prims, gizmoPath]);
+
+  // Grid cells stay 0.5m / 2m regardless of the stage's linear unit.
+  // Unauthored metersPerUnit keeps the viewer's historical 1 unit = 1m grid.
+  const unitsPerMeter = 1 / (metadata.metersPerUnit ?? 1);
+  const stageRotation: [number, number, number] = metadata.upAxis === 'Z' ? Z_UP_ROTATION : [0, 0, 0];
+
+  // Stages without lights keep the default rig so they are not rendered black
+  const useStageLights = lighting === 'stage' && lights.length > 0;
+
   return (
     <>
-      <ambientLight intensity={0.5} />
-      <directionalLight position={[10, 10, 5]} intensity={1} />
-      <directionalLight position={[-10, -10, -5]} intensity={0.3} />
+      {!useStageLights && (
+        <>
+          <ambientLight intensity={0.5} />
+          <directionalLight position={[10, 10, 5]} intensity={1} />
+          <directionalLight position={[-10, -10, -5]} intensity={0.3} />
+        </>
+      )}
+
+      <group rotation={stageRotation}>
+        {useStageLights && (
+          <StageLights
+            lights={lights}
+            currentFrame={currentFrame}
+            environment={environment}
+            stageRotation={stageRotation}
+          />
+        )}
+        {activeCamera && <StageCamera camera={activeCamera} currentFrame={currentFrame} />}
+        {prims.filter(isDefinedPrim).map((prim, index) => (
+          <PrimMesh
+            key={`${prim.name}-${index}`}
+            prim={prim}
+            currentFrame={currentFrame}
+            materials={materials}
+            textures={textures}
+            onPick={onPick}
+            transformOverride={transformOverride}
+          />
+        ))}
+      </group>
+
+      {gizmoPath && gizmoChain && onTransformCommit && (
+        <TransformGizmo
+          key={`${gizmoPath}-${gizmoKey}`}
+          chain={gizmoChain}
+          path={gizmoPath}
+          mode={gizmoMode}
+          currentFrame={currentFrame}
+          stageRotation={stageRotation}
+          onDrag={setTransformOverride}
+          onCommit={(pivotFrame) => {
+            onTransformCommit(gizmoChain[gizmoChain.length - 1], pivotFrame);
+            setTransformOverride(undefined);
+            setGizmoKey((key) => key + 1);
+          }}
+          onGrab={() => onGizmoGrab?.()}
+        />
+      )}
 
-      {prims.map((prim, index) => (
-        <PrimMesh key={`${prim.name}-${index}`} prim={prim} currentFrame={currentFrame} />
+      {/* Outside the stage so the boxes do not measure themselves */}
+      {selectedPrimPaths.map((path) => (
+        <SelectionBox key={path} path={path} />
       ))}
 
       <Grid
         args={[20, 20]}
-        cellSize={0.5}
+        cellSize={0.5 * unitsPerMeter}
         cellThickness={0.5}
         cellColor="#444444"
-        sectionSize={2}
+        sectionSize={2 * unitsPerMeter}
         sectionThickness={1}
         sectionColor="#666666"
-        fadeDistance={30}
+        fadeDistance={30 * unitsPerMeter}
         fadeStrength={1}
         followCamera={false}
         infiniteGrid={true}
       />
 
-      <OrbitControls
-        makeDefault
-        enableDamping
-        dampingFactor={0.05}
-        onStart={(e) => {
-          if (e?.target) {
-            (e.target as { object?: { userData: { userInteracted: boolean } } }).object!.userData.userInteracted = true;
-          }
-        }}
-      />
-      <AutoRotateCamera />
+      {/* A stage camera is only moved by its own transform */}
+      {!activeCamera && (
+        <>
+          <OrbitControls
+            makeDefault
+            enableDamping
+            dampingFactor={0.05}
+            onStart={(e) => {
+              if (e?.target) {
+                (e.target as { object?: { userData: { userInteracted: boolean } } }).object!.userData.userInteracted = true;
+              }
+            }}
+          />
+          <AutoRotateCamera />
+        </>
+      )}
     </>
   );
 }
 
+type LightingMode = 'stage' | 'default';
+
+interface LightingToggleProps {
+  lighting: LightingMode;
+  hasStageLights: boolean;
+  onChange: (lighting: LightingMode) => void;
+}
+
+// Switches between the stage's UsdLux lights and the viewer's default rig
+function LightingToggle({ lighting, hasStageLights, onChange }: LightingToggleProps) {
+  const option = (mode: LightingMode, label: string, enabled: boolean) => {
+    const active = enabled && lighting === mode;
+    return (
+      <button
+        onClick={() => onChange(mode)}
+        disabled={!enabled}
+        style={{
+          background: active ? '#4a9eff' : '#3a3a4a',
+          border: 'none',
+          color: enabled ? '#fff' : '#666',
+          padding: '4px 10px',
+          borderRadius: '4px',
+          cursor: enabled ? 'pointer' : 'not-allowed',
+          fontSize: '12px',
+        }}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  return (
+    <div
+      style={{ display: 'flex', gap: '4px' }}
+      title={hasStageLights ? 'Lighting' : 'The stage has no UsdLux lights'}
+    >
+      {option('stage', 'Stage lights', hasStageLights)}
+      {option('default', 'Default rig', true)}
+    </div>
+  );
+}
+
+const GIZMO_MODES: { mode: TransformMode; label: string }[] = [
+  { mode: 'translate', label: 'Move' },
+  { mode: 'rotate', label: 'Rotate' },
+  { mode: 'scale', label: 'Scale' },
+];
+
+interface GizmoModeToggleProps {
+  mode: TransformMode;
+  onChange: (mode: TransformMode) => void;
+}
+
+// Picks what the selection gizmo edits
+function GizmoModeToggle({ mode, onChange }: GizmoModeToggleProps) {
+  return (
+    <div style={{ display: 'flex', gap: '4px' }} title="Gizmo">
+      {GIZMO_MODES.map((option) => (
+        <button
+          key={option.mode}
+          onClick={() => onChange(option.mode)}
+          style={{
+            background: mode === option.mode ? '#4a9eff' : '#3a3a4a',
+            border: 'none',
+            color: '#fff',
+            padding: '4px 10px',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '12px',
+          }}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface CameraSelectorProps {
+  cameras: UsdCamera[];
+  selectedCamera: string | null;
+  disabled: boolean;
+  onChange: (cameraPath: string | null) => void;
+}
+
+// Switches the viewport between the free camera and the stage's Camera prims
+function CameraSelector({ cameras, selectedCamera, disabled, onChange }: CameraSelectorProps) {
+  return (
+    <select
+      value={selectedCamera ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled || cameras.length === 0}
+      title={cameras.length ? 'Camera' : 'The stage has no cameras'}
+      style={{
+        background: '#3a3a4a',
+        border: 'none',
+        color: '#fff',
+        padding: '4px 8px',
+        borderRadius: '4px',
+        fontSize: '12px',
+        cursor: disabled || cameras.length === 0 ? 'not-allowed' : 'pointer',
+      }}
+    >
+      <option value="">Free camera</option>
+      {cameras.map((camera) => (
+        <option key={camera.path} value={camera.path}>
+          {camera.path}
+        </option>
+      ))}
+    </select>
+  );
+}
+
 interface TimelineControlsProps {
   isPlaying: boolean;
   currentFrame: number;
@@ -289,7 +820,7 @@ interface AnimationPlayerProps {
   isPlaying: boolean;
   startFrame: number;
   endFrame: number;
-  fps: number;
+  timeCodesPerSecond: number;
   onFrameUpdate: (frame: number) => void;
   recordingMode?: boolean;
   onLoopComplete?: () => void;
@@ -299,7 +830,7 @@ function AnimationPlayer({
   isPlaying,
   startFrame,
   endFrame,
-  fps,
+  timeCodesPerSecond,
   onFrameUpdate,
   recordingMode = false,
   onLoopComplete,
@@ -315,7 +846,7 @@ function AnimationPlayer({
 
   useFrame((_, delta) => {
     if (isPlaying && endFrame > startFrame) {
-      frameRef.current += delta * fps;
+      frameRef.current += delta * timeCodesPerSecond;
       if (frameRef.current > endFrame) {
         if (recordingMode && !hasCompletedLoopRef.current) {
           hasCompletedLoopRef.current = true;
@@ -343,6 +874,7 @@ interface UsdViewerProps {
   usdaContent: string;
   currentFilePath: string;
   files: Map<string, VirtualFile>;
+  variantSelections?: VariantSelections;
   onCanvasReady?: (canvas: HTMLCanvasElement) => void;
   isRecording?: boolean;
   onRecordingComplete?: () => void;
@@ -351,46 +883,93 @@ interface UsdViewerProps {
     startFrame: number;
     endFrame: number;
     currentFrame: number;
+    framesPerSecond: number;
   }) => void;
   onErrors?: (errors: ParseError[]) => void;
   onPrimsChange?: (prims: ParsedPrim[]) => void;
+  selectedPrimPaths?: string[];
+  onPrimSelect?: (path: string | null, additive: boolean) => void; // null: clicked empty space
+  onFileEdit?: (filePath: string, content: string) => void; // Gizmo edits written back to a layer
 }
 
+// Points and lines are hit within this distance (in scene units) rather than three.js' default of 1
+const PICK_THRESHOLD = 0.05;
+
 export function UsdViewer({
   usdaContent,
   currentFilePath,
   files,
+  variantSelections,
   onCanvasReady,
   isRecording = false,
   onRecordingComplete,
   onAnimationInfo,
   onErrors,
   onPrimsChange,
+  selectedPrimPaths = [],
+  onPrimSelect,
+  onFileEdit,
 }: UsdViewerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentFrame, setCurrentFrame] = useState(0);
-  const [fps] = useState(24);
+  const [lighting, setLighting] = useState<LightingMode>('stage');
+  const [selectedCamera, setSelectedCamera] = useState<string | null>(null);
+  const [gizmoMode, setGizmoMode] = useState<TransformMode>('translate');
 
-  const { prims, errors } = useMemo(() => {
+  const { prims, errors, metadata } = useMemo(() => {
     try {
-      return parseAndResolve(usdaContent, currentFilePath, files);
+      return parseAndResolve(usdaContent, currentFilePath, files, variantSelections);
     } catch (error) {
       console.error('Failed to parse USDA:', error);
-      return { prims: [], errors: [] };
+      return { prims: [], errors: [], metadata: {} };
     }
-  }, [usdaContent, currentFilePath, files]);
+  }, [usdaContent, currentFilePath, files, variantSelections]);
+
+  const timeCodesPerSecond = getTimeCodesPerSecond(metadata);
+  const framesPerSecond = getFramesPerSecond(metadata);
+
+  const materials = useMemo(() => collectMaterials(prims), [prims]);
+  const textures = useTextures(materials, files);
+
+  const lights = useMemo(() => collectLights(prims), [prims]);
+  const environmentFile = lights.find((light) => light.type === 'DomeLight' && light.textureFile)?.textureFile;
+  const environment = useEnvironmentTexture(environmentFile && files.get(environmentFile.filePath));
+
+  // A selected camera that is no longer on the stage falls back to the free camera
+  const cameras = useMemo(() => collectCameras(prims), [prims]);
+  const activeCamera = cameras.find((camera) => camera.path === selectedCamera);
+  const filmAspect = activeCamera && getCameraProjection(activeCamera, currentFrame).aspect;
+
+  // Texture files are looked up in the workspace once the materials and lights are known
+  const textureErrors = useMemo(() => {
+    const textureFiles = [
+      ...Array.from(materials.values()).flatMap((surface) => Object.values(surface.textures)),
+      ...lights.flatMap((light) => (light.textureFile ? [light.textureFile] : [])),
+    ];
+    const missing = new Map<string, ParseError>();
+    for (const texture of textureFiles) {
+      if (files.get(texture.filePath)?.blob || missing.has(texture.filePath)) continue;
+      missing.set(texture.filePath, {
+        type: 'missing_file',
+        message: `Texture file not found: ${texture.assetPath} (resolved to ${texture.filePath})`,
+        filePath: texture.layerPath ?? currentFilePath,
+        ...errorLocation(texture.range),
+      });
+    }
+    return Array.from(missing.values());
+  }, [materials, lights, files, currentFilePath]);
 
   // Report errors to parent
   useEffect(() => {
-    onErrors?.(errors);
-  }, [errors, onErrors]);
+    onErrors?.(textureErrors.length ? [...errors, ...textureErrors] : errors);
+  }, [errors, textureErrors, onErrors]);
 
   // Report prims to parent
   useEffect(() => {
     onPrimsChange?.(prims);
   }, [prims, onPrimsChange]);
 
-  const { startFrame, endFrame } = useMemo(() => getTimeRange(prims), [prims]);
+  const { startFrame, endFrame } = useMemo(() => getTimeRange(prims, metadata), [prims, metadata]);
   const hasAnimation = endFrame > startFrame;
 
   useEffect(() => {
@@ -399,13 +978,16 @@ export function UsdViewer({
       startFrame,
       endFrame,
       currentFrame,
+      framesPerSecond,
     });
-  }, [hasAnimation, startFrame, endFrame, currentFrame, onAnimationInfo]);
+  }, [hasAnimation, startFrame, endFrame, currentFrame, framesPerSecond, onAnimationInfo]);
 
+  // Edits to the open file keep the current frame, so keys set from the gizmo
+  // or the inspector stay in view
   useEffect(() => {
     setCurrentFrame(startFrame);
     setIsPlaying(false);
-  }, [startFrame, usdaContent]);
+  }, [startFrame, currentFilePath]);
 
   useEffect(() => {
     if (isRecording) {
@@ -430,39 +1012,139 @@ export function UsdViewer({
     onRecordingComplete?.();
   };
 
+  // Write a gizmo edit into the layers holding the prim's strongest opinions
+  const handleTransformCommit = (prim: ParsedPrim, pivotFrame: THREE.Matrix4) => {
+    const { contents, error } = editTransform(prim, pivotFrame, gizmoMode, currentFrame, files);
+    if (error) {
+      alert(error);
+      return;
+    }
+    setIsPlaying(false);
+    for (const [filePath, content] of contents) onFileEdit?.(filePath, content);
+  };
+
+  // Clicking empty space clears the selection, unless the pointer was dragged
+  // to orbit or the click grabbed the gizmo
+  const pointerDownRef = useRef({ x: 0, y: 0 });
+  const gizmoGrabbedRef = useRef(false);
+  const handlePick = (path: string, additive: boolean) => {
+    if (!gizmoGrabbedRef.current) onPrimSelect?.(path, additive);
+  };
+  const handlePointerMissed = (e: MouseEvent) => {
+    const down = pointerDownRef.current;
+    if (e.type !== 'click' || gizmoGrabbedRef.current) return;
+    if (Math.hypot(e.clientX - down.x, e.clientY - down.y) > PICK_DRAG_TOLERANCE) return;
+    onPrimSelect?.(null, e.shiftKey);
+  };
+
   const handleCanvasCreated = (state: { gl: THREE.WebGLRenderer }) => {
     onCanvasReady?.(state.gl.domElement);
   };
 
   return (
-    <div style={{ width: '100%', height: '100%', background: '#1a1a2e', position: 'relative' }}>
-      <Canvas
-        camera={{ position: [3, 3, 3], fov: 50 }}
-        style={{ width: '100%', height: '100%' }}
-        onCreated={handleCanvasCreated}
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        background: filmAspect ? '#0d0d17' : '#1a1a2e',
+        position: 'relative',
+        // The canvas is letterboxed to the stage camera's film back
+        containerType: 'size',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+    >
+      <div
+        style={
+          filmAspect
+            ? { width: `min(100cqw, 100cqh * ${filmAspect})`, aspectRatio: filmAspect, background: '#1a1a2e' }
+            : { width: '100%', height: '100%' }
+        }
       >
-        <Scene prims={prims} currentFrame={currentFrame} />
-        <AnimationPlayer
-          isPlaying={isPlaying}
-          startFrame={startFrame}
-          endFrame={endFrame}
-          fps={fps}
-          onFrameUpdate={setCurrentFrame}
-          recordingMode={isRecording}
-          onLoopComplete={handleLoopComplete}
-        />
-      </Canvas>
+        <Canvas
+          camera={{ position: [3, 3, 3], fov: 50 }}
+          style={{ width: '100%', height: '100%' }}
+          onCreated={handleCanvasCreated}
+          raycaster={{
+            params: {
+              Mesh: {},
+              Line: { threshold: PICK_THRESHOLD },
+              LOD: {},
+              Points: { threshold: PICK_THRESHOLD },
+              Sprite: {},
+            },
+          }}
+          // Captured so the reset runs before the gizmo's own pointerdown listener
+          onPointerDownCapture={(e) => {
+            pointerDownRef.current = { x: e.clientX, y: e.clientY };
+            gizmoGrabbedRef.current = false;
+          }}
+          onPointerMissed={handlePointerMissed}
+        >
+          <Scene
+            prims={prims}
+            currentFrame={currentFrame}
+            metadata={metadata}
+            materials={materials}
+            textures={textures}
+            lights={lights}
+            environment={environment}
+            lighting={lighting}
+            activeCamera={activeCamera}
+            selectedPrimPaths={selectedPrimPaths}
+            onPick={handlePick}
+            gizmoMode={gizmoMode}
+            onTransformCommit={onFileEdit && !isRecording ? handleTransformCommit : undefined}
+            onGizmoGrab={() => {
+              gizmoGrabbedRef.current = true;
+            }}
+          />
+          <AnimationPlayer
+            isPlaying={isPlaying}
+            startFrame={startFrame}
+            endFrame={endFrame}
+            timeCodesPerSecond={timeCodesPerSecond}
+            onFrameUpdate={setCurrentFrame}
+            recordingMode={isRecording}
+            onLoopComplete={handleLoopComplete}
+          />
+        </Canvas>
+      </div>
       <TimelineControls
         isPlaying={isPlaying}
         currentFrame={currentFrame}
         startFrame={startFrame}
         endFrame={endFrame}
-        fps={fps}
+        fps={framesPerSecond}
         onPlay={handlePlay}
         onStop={handleStop}
         onReset={handleReset}
         onFrameChange={handleFrameChange}
       />
+      <div
+        style={{
+          position: 'absolute',
+          top: '12px',
+          right: '12px',
+          display: 'flex',
+          gap: '8px',
+          background: 'rgba(30, 30, 40, 0.9)',
+          padding: '4px',
+          borderRadius: '6px',
+          boxShadow: '0 2px 8px rgba(0, 0, 0, 0.3)',
+        }}
+      >
+        {/* Switching cameras resizes the canvas, which would break a recording in progress */}
+        <CameraSelector
+          cameras={cameras}
+          selectedCamera={activeCamera ? selectedCamera : null}
+          disabled={isRecording}
+          onChange={setSelectedCamera}
+        />
+        <LightingToggle lighting={lighting} hasStageLights={lights.length > 0} onChange={setLighting} />
+        {onFileEdit && selectedPrimPaths.length > 0 && <GizmoModeToggle mode={gizmoMode} onChange={setGizmoMode} />}
+      </div>
     </div>
   );
 }
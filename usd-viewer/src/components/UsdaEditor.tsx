@@ -1,7 +1,11 @@
-import { useRef, useCallback } from 'react';
-import Editor, { type OnMount, type BeforeMount } from '@monaco-editor/react';
-import type { editor } from 'monaco-editor';
+import { useRef, useCallback, useEffect, useMemo, useState } from 'react';
+import Editor, { type OnMount, type BeforeMount, type Monaco } from '@monaco-editor/react';
+import type { editor, IRange, languages } from 'monaco-editor';
 import { registerUsdaLanguage, USDA_LANGUAGE_ID } from '../languages/usda';
+import { setUsdaWorkspace } from '../languages/usdaWorkspace';
+import { setUsdaMarkers } from '../languages/usdaMarkers';
+import { findSymbolPath, getUsdaSymbols } from '../languages/usdaOutline';
+import type { ParseError, VirtualFile } from '../types/virtualFileSystem';
 
 const DEFAULT_USDA_CONTENT = `#usda 1.0
 (
@@ -20,16 +24,148 @@ def Xform "World"
 
 interface UsdaEditorProps {
   initialValue?: string;
+  value?: string; // The file's current content, which may be changed outside the editor
   onSave?: (content: string) => void;
   onChange?: (content: string | undefined) => void;
+  revealRange?: IRange | null;
+  highlight?: EditorHighlight | null; // The selected prim's block
+  onCursorOffsetChange?: (offset: number) => void; // Moved by the user, not by edits
+  files?: Map<string, VirtualFile>; // The workspace, for completing asset and prim paths
+  filePath?: string | null;
+  errors?: ParseError[]; // Stage errors; those in filePath are marked in the text
+  onCreateFile?: (path: string, content: string) => void; // The "Create missing file" quick fix
+  onOpenLocation?: (path: string, range: IRange) => void; // Go to definition in another file
+}
+
+export interface EditorHighlight {
+  range: IRange;
+  reveal: boolean; // Scroll the block's first line into view
+}
+
+// Replace only the span that differs, so the cursor and undo history survive
+// edits made outside the editor
+function applyExternalContent(editor: editor.IStandaloneCodeEditor, content: string) {
+  const model = editor.getModel();
+  const current = model?.getValue();
+  if (!model || current === undefined || current === content) return;
+
+  let start = 0;
+  while (start < current.length && start < content.length && current[start] === content[start]) start++;
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < content.length - start &&
+    current[current.length - 1 - end] === content[content.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const from = model.getPositionAt(start);
+  const to = model.getPositionAt(current.length - end);
+  editor.pushUndoStop();
+  editor.executeEdits('external', [
+    {
+      range: {
+        startLineNumber: from.lineNumber,
+        startColumn: from.column,
+        endLineNumber: to.lineNumber,
+        endColumn: to.column,
+      },
+      text: content.slice(start, content.length - end),
+    },
+  ]);
+  editor.pushUndoStop();
+}
+
+// Mark the lines of a block without moving the cursor
+function applyHighlight(
+  editor: editor.IStandaloneCodeEditor,
+  decorations: editor.IEditorDecorationsCollection,
+  highlight: EditorHighlight | null | undefined
+) {
+  if (!highlight) {
+    decorations.clear();
+    return;
+  }
+  decorations.set([
+    {
+      range: highlight.range,
+      options: {
+        isWholeLine: true,
+        className: 'usda-prim-highlight',
+        linesDecorationsClassName: 'usda-prim-highlight-gutter',
+      },
+    },
+  ]);
+  if (highlight.reveal) editor.revealLineInCenterIfOutsideViewport(highlight.range.startLineNumber);
+}
+
+// Scroll a range into view and select it
+function revealAndSelect(editor: editor.IStandaloneCodeEditor, range: IRange) {
+  editor.revealRangeInCenterIfOutsideViewport(range);
+  editor.setSelection(range);
+  editor.focus();
 }
 
 export function UsdaEditor({
   initialValue = DEFAULT_USDA_CONTENT,
+  value,
   onSave,
   onChange,
+  revealRange,
+  highlight,
+  onCursorOffsetChange,
+  files,
+  filePath = null,
+  errors,
+  onCreateFile,
+  onOpenLocation,
 }: UsdaEditorProps) {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const revealRangeRef = useRef(revealRange);
+  const decorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const highlightRef = useRef(highlight);
+  const onCursorOffsetChangeRef = useRef(onCursorOffsetChange);
+  const [breadcrumbs, setBreadcrumbs] = useState<languages.DocumentSymbol[]>([]);
+
+  useEffect(() => {
+    highlightRef.current = highlight;
+    if (editorRef.current && decorationsRef.current) {
+      applyHighlight(editorRef.current, decorationsRef.current, highlight);
+    }
+  }, [highlight]);
+
+  useEffect(() => {
+    setUsdaWorkspace({ files: files ?? new Map(), filePath, createFile: onCreateFile, openLocation: onOpenLocation });
+  }, [files, filePath, onCreateFile, onOpenLocation]);
+
+  const fileErrors = useMemo(
+    () => (errors ?? []).filter((error) => error.filePath === filePath),
+    [errors, filePath]
+  );
+  const fileErrorsRef = useRef(fileErrors);
+
+  useEffect(() => {
+    fileErrorsRef.current = fileErrors;
+    const model = editorRef.current?.getModel();
+    if (monacoRef.current && model) setUsdaMarkers(monacoRef.current, model, fileErrors);
+  }, [fileErrors]);
+
+  useEffect(() => {
+    onCursorOffsetChangeRef.current = onCursorOffsetChange;
+  }, [onCursorOffsetChange]);
+
+  useEffect(() => {
+    revealRangeRef.current = revealRange;
+    if (editorRef.current && revealRange) {
+      revealAndSelect(editorRef.current, revealRange);
+    }
+  }, [revealRange]);
+
+  useEffect(() => {
+    if (editorRef.current && value !== undefined) applyExternalContent(editorRef.current, value);
+  }, [value]);
 
   const handleBeforeMount: BeforeMount = useCallback((monaco) => {
     registerUsdaLanguage(monaco);
@@ -38,6 +174,7 @@ export function UsdaEditor({
   const handleEditorMount: OnMount = useCallback(
     (editor, monaco) => {
       editorRef.current = editor;
+      monacoRef.current = monaco;
 
       // Add save action (Ctrl+S / Cmd+S)
       editor.addAction({
@@ -50,8 +187,34 @@ export function UsdaEditor({
         },
       });
 
-      // Focus the editor
-      editor.focus();
+      const model = editor.getModel();
+      if (model) setUsdaMarkers(monaco, model, fileErrorsRef.current);
+
+      decorationsRef.current = editor.createDecorationsCollection();
+      applyHighlight(editor, decorationsRef.current, highlightRef.current);
+
+      // The prims, variants and property around the cursor
+      const updateBreadcrumbs = () => {
+        const model = editor.getModel();
+        const position = editor.getPosition();
+        if (model && position) setBreadcrumbs(findSymbolPath(getUsdaSymbols(monaco, model), position));
+      };
+      updateBreadcrumbs();
+      editor.onDidChangeModelContent(updateBreadcrumbs);
+
+      editor.onDidChangeCursorPosition((e) => {
+        updateBreadcrumbs();
+        const model = editor.getModel();
+        if (!model || (e.source !== 'mouse' && e.source !== 'keyboard')) return;
+        onCursorOffsetChangeRef.current?.(model.getOffsetAt(e.position));
+      });
+
+      // Focus the editor, jumping to a pending location if one was requested before mount
+      if (revealRangeRef.current) {
+        revealAndSelect(editor, revealRangeRef.current);
+      } else {
+        editor.focus();
+      }
     },
     [onSave]
   );
@@ -64,35 +227,51 @@ export function UsdaEditor({
   );
 
   return (
-    <Editor
-      height="100%"
-      defaultLanguage={USDA_LANGUAGE_ID}
-      defaultValue={initialValue}
-      theme="usda-dark"
-      beforeMount={handleBeforeMount}
-      onMount={handleEditorMount}
-      onChange={handleChange}
-      options={{
-        fontSize: 14,
-        fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, Monaco, 'Courier New', monospace",
-        fontLigatures: true,
-        minimap: { enabled: true },
-        scrollBeyondLastLine: false,
-        automaticLayout: true,
-        tabSize: 4,
-        insertSpaces: true,
-        renderWhitespace: 'selection',
-        bracketPairColorization: { enabled: true },
-        guides: {
-          bracketPairs: true,
-          indentation: true,
-        },
-        lineNumbers: 'on',
-        wordWrap: 'off',
-        folding: true,
-        foldingStrategy: 'indentation',
-      }}
-    />
+    <div className="usda-editor">
+      <nav className="usda-breadcrumbs">
+        {breadcrumbs.map((symbol, index) => (
+          <button
+            key={index}
+            className="usda-breadcrumb"
+            title={symbol.detail}
+            onClick={() => editorRef.current && revealAndSelect(editorRef.current, symbol.selectionRange)}
+          >
+            {symbol.name}
+          </button>
+        ))}
+      </nav>
+      <div className="usda-editor-body">
+        <Editor
+          height="100%"
+          defaultLanguage={USDA_LANGUAGE_ID}
+          defaultValue={initialValue}
+          theme="usda-dark"
+          beforeMount={handleBeforeMount}
+          onMount={handleEditorMount}
+          onChange={handleChange}
+          options={{
+            fontSize: 14,
+            fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', Menlo, Monaco, 'Courier New', monospace",
+            fontLigatures: true,
+            minimap: { enabled: true },
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            tabSize: 4,
+            insertSpaces: true,
+            renderWhitespace: 'selection',
+            bracketPairColorization: { enabled: true },
+            guides: {
+              bracketPairs: true,
+              indentation: true,
+            },
+            lineNumbers: 'on',
+            wordWrap: 'off',
+            folding: true,
+            foldingStrategy: 'auto', // The usda folding ranges: brackets, not indentation
+          }}
+        />
+      </div>
+    </div>
   );
 }
 
@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from 'react';
+import type * as THREE from 'three';
+import type { VirtualFile } from '../types/virtualFileSystem';
+import type { PreviewSurface, SurfaceTexture, TexturedInput } from '../parsers/materials';
+import { loadEnvironmentTexture, loadSurfaceTexture, textureKey } from '../utils/textureLoader';
+
+// Inputs whose textures hold colors rather than data
+export const COLOR_INPUTS: ReadonlySet<TexturedInput> = new Set(['diffuseColor', 'emissiveColor']);
+
+// Load the textures used by the stage's materials from the workspace's Blobs,
+// by textureKey. Loaded textures are kept while their file is unchanged, so
+// editing layer text does not reload them.
+export function useTextures(
+  materials: Map<string, PreviewSurface>,
+  files: Map<string, VirtualFile>
+): Map<string, THREE.Texture> {
+  const [textures, setTextures] = useState<Map<string, THREE.Texture>>(() => new Map());
+  const cacheRef = useRef(new Map<string, { version: string; texture: THREE.Texture }>());
+
+  useEffect(() => {
+    let cancelled = false;
+    const cache = cacheRef.current;
+
+    const wanted = new Map<string, { texture: SurfaceTexture; isColor: boolean; file: VirtualFile }>();
+    for (const surface of materials.values()) {
+      for (const [input, texture] of Object.entries(surface.textures) as [TexturedInput, SurfaceTexture][]) {
+        const file = files.get(texture.filePath);
+        if (!file?.blob) continue;
+        const isColor = COLOR_INPUTS.has(input);
+        wanted.set(textureKey(texture, isColor), { texture, isColor, file });
+      }
+    }
+
+    Promise.all(
+      Array.from(wanted, async ([key, { texture, isColor, file }]) => {
+        const version = `${file.id}:${file.lastModified}`;
+        const cached = cache.get(key);
+        if (cached?.version === version) return [key, cached] as const;
+        try {
+          const loaded = await loadSurfaceTexture(file.blob!, texture, isColor);
+          return [key, { version, texture: loaded }] as const;
+        } catch (error) {
+          console.warn(`Failed to load texture ${texture.filePath}:`, error);
+          return undefined;
+        }
+      })
+    ).then((entries) => {
+      const loaded = entries.filter((entry) => entry !== undefined);
+      if (cancelled) {
+        // Only dispose textures this run created
+        loaded.forEach(([key, entry]) => cache.get(key) !== entry && entry.texture.dispose());
+        return;
+      }
+
+      const next = new Map(loaded);
+      for (const [key, entry] of cache) {
+        if (next.get(key) !== entry) entry.texture.dispose();
+      }
+      cacheRef.current = next;
+      setTextures(new Map(Array.from(next, ([key, entry]) => [key, entry.texture])));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [materials, files]);
+
+  return textures;
+}
+
+// Load a DomeLight texture from the workspace. The previous texture stays in
+// use until its replacement has loaded.
+export function useEnvironmentTexture(file: VirtualFile | undefined): THREE.Texture | null {
+  const [texture, setTexture] = useState<THREE.Texture | null>(null);
+  const currentRef = useRef<THREE.Texture | null>(null);
+  const blob = file?.blob;
+  const filePath = file?.path;
+
+  useEffect(() => {
+    if (!blob || !filePath) return;
+    let cancelled = false;
+    loadEnvironmentTexture(blob, filePath)
+      .then((loaded) => {
+        if (cancelled) {
+          loaded.dispose();
+          return;
+        }
+        currentRef.current?.dispose();
+        currentRef.current = loaded;
+        setTexture(loaded);
+      })
+      .catch((error) => console.warn(`Failed to load environment ${filePath}:`, error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [blob, filePath]);
+
+  return blob ? texture : null;
+}
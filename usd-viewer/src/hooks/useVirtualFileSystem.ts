@@ -26,6 +26,25 @@ export function resolveRelativePath(basePath: string, relativePath: string): str
   return '/' + resolved.join('/');
 }
 
+// Path of a file relative to another file's directory, e.g. "./props/ball.usda"
+export function getRelativePath(basePath: string, targetPath: string): string {
+  const baseSegments = basePath.split('/').filter(Boolean).slice(0, -1);
+  const targetSegments = targetPath.split('/').filter(Boolean);
+
+  let shared = 0;
+  while (
+    shared < baseSegments.length &&
+    shared < targetSegments.length - 1 &&
+    baseSegments[shared] === targetSegments[shared]
+  ) {
+    shared++;
+  }
+
+  const up = baseSegments.length - shared;
+  const rest = targetSegments.slice(shared).join('/');
+  return up === 0 ? `./${rest}` : '../'.repeat(up) + rest;
+}
+
 // Extract directory from path
 export function getDirectory(path: string): string {
   const lastSlash = path.lastIndexOf('/');
@@ -44,6 +63,15 @@ export function isUsdaFile(path: string): boolean {
   return lower.endsWith('.usda') || lower.endsWith('.usd');
 }
 
+// Binary assets the workspace can hold, such as textures
+const BINARY_ASSET_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.exr'];
+
+// Check if path is a binary asset
+export function isBinaryAsset(path: string): boolean {
+  const lower = path.toLowerCase();
+  return BINARY_ASSET_EXTENSIONS.some((extension) => lower.endsWith(extension));
+}
+
 // Build file tree structure from flat file list
 export interface FileTreeNode {
   name: string;
@@ -119,5 +147,6 @@ export function useVirtualFileSystem() {
     getDir,
     getName,
     isUsdaFile,
+    isBinaryAsset,
   };
 }
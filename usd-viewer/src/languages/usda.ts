@@ -1,4 +1,14 @@
 import type { languages } from 'monaco-editor';
+import { USDA_PRIM_TYPES } from './usdaSchemas';
+import { createUsdaCompletionProvider } from './usdaCompletion';
+import { CREATE_FILE_COMMAND, createUsdaCodeActionProvider } from './usdaCodeActions';
+import {
+  createUsdaDefinitionProvider,
+  createUsdaEditorOpener,
+  createUsdaHoverProvider,
+} from './usdaNavigation';
+import { createUsdaDocumentSymbolProvider, createUsdaFoldingRangeProvider } from './usdaOutline';
+import { getUsdaWorkspace } from './usdaWorkspace';
 
 export const USDA_LANGUAGE_ID = 'usda';
 
@@ -60,40 +70,7 @@ export const usdaTokensProvider: languages.IMonarchLanguage = {
     'instanceable',
   ],
 
-  primTypes: [
-    'Xform',
-    'Sphere',
-    'Cube',
-    'Cylinder',
-    'Cone',
-    'Capsule',
-    'Mesh',
-    'Scope',
-    'Material',
-    'Shader',
-    'Camera',
-    'DistantLight',
-    'DomeLight',
-    'RectLight',
-    'SphereLight',
-    'DiskLight',
-    'CylinderLight',
-    'GeomSubset',
-    'Points',
-    'BasisCurves',
-    'NurbsCurves',
-    'NurbsPatch',
-    'PointInstancer',
-    'SkelRoot',
-    'Skeleton',
-    'SkelAnimation',
-    'BlendShape',
-    'Volume',
-    'OpenVDBAsset',
-    'RenderSettings',
-    'RenderProduct',
-    'RenderVar',
-  ],
+  primTypes: USDA_PRIM_TYPES,
 
   attributePrefixes: ['uniform', 'custom', 'rel', 'varying', 'config'],
 
@@ -252,9 +229,28 @@ export const usdaTheme: { base: 'vs-dark'; inherit: boolean; rules: { token: str
   },
 };
 
+// Providers add up rather than replace each other, so they are registered
+// once even though every editor mount calls registerUsdaLanguage
+let providersRegistered = false;
+
 export function registerUsdaLanguage(monaco: typeof import('monaco-editor')) {
   monaco.languages.register({ id: USDA_LANGUAGE_ID });
   monaco.languages.setLanguageConfiguration(USDA_LANGUAGE_ID, usdaLanguageConfiguration);
   monaco.languages.setMonarchTokensProvider(USDA_LANGUAGE_ID, usdaTokensProvider);
   monaco.editor.defineTheme('usda-dark', usdaTheme);
+
+  if (providersRegistered) return;
+  providersRegistered = true;
+  monaco.languages.registerCompletionItemProvider(USDA_LANGUAGE_ID, createUsdaCompletionProvider(monaco));
+  monaco.languages.registerCodeActionProvider(USDA_LANGUAGE_ID, createUsdaCodeActionProvider(monaco), {
+    providedCodeActionKinds: ['quickfix'],
+  });
+  monaco.languages.registerDefinitionProvider(USDA_LANGUAGE_ID, createUsdaDefinitionProvider(monaco));
+  monaco.languages.registerHoverProvider(USDA_LANGUAGE_ID, createUsdaHoverProvider());
+  monaco.languages.registerDocumentSymbolProvider(USDA_LANGUAGE_ID, createUsdaDocumentSymbolProvider(monaco));
+  monaco.languages.registerFoldingRangeProvider(USDA_LANGUAGE_ID, createUsdaFoldingRangeProvider());
+  monaco.editor.registerEditorOpener(createUsdaEditorOpener());
+  monaco.editor.registerCommand(CREATE_FILE_COMMAND, (_accessor, path: string, content: string) => {
+    getUsdaWorkspace().createFile?.(path, content);
+  });
 }
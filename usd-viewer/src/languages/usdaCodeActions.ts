@@ -0,0 +1,168 @@
+import type { editor, languages } from 'monaco-editor';
+import { parseLayer } from '../parsers/usdaLayerParser';
+import { lineStartOffset, type TextEdit } from '../parsers/layerEdit';
+import type { LayerSpec, MetadataEntry, PrimSpec, ValueNode, VariantSpec } from '../parsers/usdaAst';
+import type { ParseErrorType } from '../types/virtualFileSystem';
+import { getFilename, isBinaryAsset, resolveRelativePath } from '../hooks/useVirtualFileSystem';
+import { listPrimPaths } from './usdaCompletion';
+import { getUsdaWorkspace } from './usdaWorkspace';
+
+// Quick fixes for the composition errors marked in the editor: create a
+// missing layer, retarget a prim path that does not exist, or drop an arc
+// that closes a cycle. Each fix finds the arc through the marker's position.
+
+type Monaco = typeof import('monaco-editor');
+
+// Runs the workspace's createFile with (path, content)
+export const CREATE_FILE_COMMAND = 'usda.createFile';
+
+// An arc as authored: one value of a references, payload, inherits,
+// specializes or subLayers statement
+interface AuthoredArc {
+  entry: MetadataEntry;
+  value: ValueNode;
+  values: ValueNode[]; // All values of the statement, value among them
+}
+
+const REMOVE_ARC_TITLES: Record<string, string> = {
+  references: 'Remove reference',
+  payload: 'Remove payload',
+  inherits: 'Remove inherit',
+  specializes: 'Remove specialization',
+  subLayers: 'Remove sublayer',
+};
+
+// Every prim and variant spec of a layer, nested ones included
+function collectSpecs(specs: (PrimSpec | VariantSpec)[]): (PrimSpec | VariantSpec)[] {
+  return specs.flatMap((spec) => [
+    spec,
+    ...collectSpecs([...spec.children, ...spec.variantSets.flatMap((set) => set.variants)]),
+  ]);
+}
+
+// The arc value that starts at an offset
+function findAuthoredArc(layer: LayerSpec, offset: number): AuthoredArc | undefined {
+  const metadata = [layer.metadata, ...collectSpecs(layer.prims).map((spec) => spec.metadata)].flat();
+  for (const entry of metadata) {
+    const values = entry.value.kind === 'array' ? entry.value.elements : [entry.value];
+    const value = values.find((element) => element.range.start.offset === offset);
+    if (value && (value.kind === 'asset' || value.kind === 'path')) return { entry, value, values };
+  }
+  return undefined;
+}
+
+// A layer that satisfies the arc: the prim it targets, or a default prim
+// named after the file, defined as nested Xforms
+function missingLayerContent(filePath: string, primPath?: string): string {
+  const stem = getFilename(filePath).replace(/\.[^.]*$/, '').replace(/\W/g, '_');
+  const names = primPath ? primPath.split('/').filter(Boolean) : [/^\d/.test(stem) ? `_${stem}` : stem];
+  const body = names.reduceRight((inner, name, depth) => {
+    const indent = '    '.repeat(depth);
+    return `${indent}def Xform "${name}"\n${indent}{\n${inner}${indent}}\n`;
+  }, '');
+  return `#usda 1.0\n(\n    defaultPrim = "${names[0]}"\n)\n\n${body}`;
+}
+
+// Drop one value from a list, or the whole statement (and its line, when it
+// has one to itself) when the value is the only one
+function removeArcEdit(content: string, arc: AuthoredArc): TextEdit {
+  const { entry, value, values } = arc;
+  const index = values.indexOf(value);
+  if (values.length > 1) {
+    return index < values.length - 1
+      ? { start: value.range.start.offset, end: values[index + 1].range.start.offset, text: '' }
+      : { start: values[index - 1].range.end.offset, end: value.range.end.offset, text: '' };
+  }
+
+  const start = entry.range.start.offset;
+  const end = entry.range.end.offset;
+  const lineStart = lineStartOffset(content, start);
+  const newline = content.indexOf('\n', end);
+  const lineEnd = newline < 0 ? content.length : newline + 1;
+  const ownLine = content.slice(lineStart, start).trim() === '' && content.slice(end, lineEnd).trim() === '';
+  return ownLine ? { start: lineStart, end: lineEnd, text: '' } : { start, end, text: '' };
+}
+
+// Point the arc at another prim: replace its </Path>, or the one after its
+// asset path, or add one when it relies on the layer's defaultPrim
+function retargetArcEdit(content: string, value: ValueNode, primPath: string): TextEdit {
+  const { start, end } = value.range;
+  if (value.kind !== 'asset' || !value.primPath) {
+    if (value.kind === 'path') return { start: start.offset, end: end.offset, text: `<${primPath}>` };
+    const assetEnd = content.indexOf('@', start.offset + 1) + 1;
+    return { start: assetEnd, end: assetEnd, text: `<${primPath}>` };
+  }
+  const open = content.indexOf('<', start.offset);
+  const close = content.indexOf('>', open);
+  return { start: open, end: close + 1, text: `<${primPath}>` };
+}
+
+export function createUsdaCodeActionProvider(monaco: Monaco): languages.CodeActionProvider {
+  const toWorkspaceEdit = (model: editor.ITextModel, edit: TextEdit): languages.WorkspaceEdit => {
+    const from = model.getPositionAt(edit.start);
+    const to = model.getPositionAt(edit.end);
+    return {
+      edits: [
+        {
+          resource: model.uri,
+          versionId: model.getVersionId(),
+          textEdit: {
+            range: new monaco.Range(from.lineNumber, from.column, to.lineNumber, to.column),
+            text: edit.text,
+          },
+        },
+      ],
+    };
+  };
+
+  return {
+    provideCodeActions(model, _range, context) {
+      const { files, filePath } = getUsdaWorkspace();
+      const content = model.getValue();
+      const { layer } = parseLayer(content);
+      const actions: languages.CodeAction[] = [];
+
+      for (const marker of context.markers) {
+        const offset = model.getOffsetAt({ lineNumber: marker.startLineNumber, column: marker.startColumn });
+        const arc = findAuthoredArc(layer, offset);
+        if (!arc || !filePath) continue;
+        const { value } = arc;
+        const assetPath = value.kind === 'asset' ? resolveRelativePath(filePath, value.path) : undefined;
+        const fix = (action: Omit<languages.CodeAction, 'kind' | 'diagnostics'>) =>
+          actions.push({ ...action, kind: 'quickfix', diagnostics: [marker] });
+
+        switch (marker.code as ParseErrorType) {
+          case 'missing_file': {
+            if (!assetPath || value.kind !== 'asset' || files.has(assetPath) || isBinaryAsset(assetPath)) break;
+            const layerContent =
+              arc.entry.key === 'subLayers' ? '#usda 1.0\n' : missingLayerContent(assetPath, value.primPath);
+            fix({
+              title: `Create missing file ${assetPath}`,
+              isPreferred: true,
+              command: { id: CREATE_FILE_COMMAND, title: 'Create missing file', arguments: [assetPath, layerContent] },
+            });
+            break;
+          }
+          case 'invalid_prim_path': {
+            // Prims of the referenced layer, or of this one for internal arcs
+            const targetContent = assetPath ? files.get(assetPath)?.content : content;
+            for (const primPath of targetContent !== undefined ? listPrimPaths(targetContent) : []) {
+              const edit = retargetArcEdit(content, value, primPath);
+              fix({ title: `Pick existing prim ${primPath}`, edit: toWorkspaceEdit(model, edit) });
+            }
+            break;
+          }
+          case 'circular_reference':
+            fix({
+              title: REMOVE_ARC_TITLES[arc.entry.key] ?? 'Remove reference',
+              isPreferred: true,
+              edit: toWorkspaceEdit(model, removeArcEdit(content, arc)),
+            });
+            break;
+        }
+      }
+
+      return { actions, dispose: () => {} };
+    },
+  };
+}
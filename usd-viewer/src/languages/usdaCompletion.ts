@@ -0,0 +1,190 @@
+import type { IRange, languages } from 'monaco-editor';
+import { parseLayer } from '../parsers/usdaLayerParser';
+import { primBodyStart } from '../parsers/layerEdit';
+import type { PrimSpec, VariantSpec } from '../parsers/usdaAst';
+import { getRelativePath, resolveRelativePath } from '../hooks/useVirtualFileSystem';
+import { getSchemaProperties, USDA_PRIM_TYPES, XFORM_OPS, type SchemaProperty } from './usdaSchemas';
+import { getUsdaWorkspace } from './usdaWorkspace';
+
+// Context-sensitive completion for usda: prim types after a specifier, schema
+// properties inside a prim block, xformOp names, workspace asset paths inside
+// @...@ and prim paths inside <...>. Completion reads the editor text as it
+// is, so it works while the layer has syntax errors.
+
+type Monaco = typeof import('monaco-editor');
+
+export interface EnclosingPrim {
+  typeName?: string; // A variant's properties belong to its owning prim's type
+  spec: PrimSpec | VariantSpec;
+}
+
+// The innermost prim or variant whose { } body contains an offset
+export function findEnclosingPrim(content: string, offset: number): EnclosingPrim | undefined {
+  let found: EnclosingPrim | undefined;
+  const visit = (spec: PrimSpec | VariantSpec, typeName?: string) => {
+    const bodyStart = primBodyStart(content, spec);
+    if (bodyStart === undefined || offset < bodyStart || offset >= spec.range.end.offset) return;
+    found = { typeName, spec };
+    spec.children.forEach((child) => visit(child, child.typeName));
+    spec.variantSets.forEach((set) => set.variants.forEach((variant) => visit(variant, typeName)));
+  };
+  parseLayer(content).layer.prims.forEach((prim) => visit(prim, prim.typeName));
+  return found;
+}
+
+// Paths of every prim in a layer, in document order
+export function listPrimPaths(content: string): string[] {
+  const paths: string[] = [];
+  const visit = (prim: PrimSpec, parentPath: string) => {
+    const path = `${parentPath}/${prim.name}`;
+    paths.push(path);
+    prim.children.forEach((child) => visit(child, path));
+  };
+  parseLayer(content).layer.prims.forEach((prim) => visit(prim, ''));
+  return paths;
+}
+
+// A declaration with the schema's fallback as the value placeholder; token
+// values offer their allowed tokens as a choice
+function propertySnippet(property: SchemaProperty, typedUniform: boolean): string {
+  if (property.typeName === 'rel') return `rel ${property.name} = <\${1}>`;
+  const declaration = `${property.uniform && !typedUniform ? 'uniform ' : ''}${property.typeName} ${property.name}`;
+  if (property.allowedTokens) {
+    const fallback = property.fallback?.replace(/"/g, '');
+    const choices = [...new Set([fallback ?? property.allowedTokens[0], ...property.allowedTokens])];
+    return `${declaration} = "\${1|${choices.join(',')}|}"`;
+  }
+  return property.fallback === undefined ? declaration : `${declaration} = \${1:${property.fallback}}`;
+}
+
+export function createUsdaCompletionProvider(monaco: Monaco): languages.CompletionItemProvider {
+  const { CompletionItemKind, CompletionItemInsertTextRule } = monaco.languages;
+  const snippet = CompletionItemInsertTextRule.InsertAsSnippet;
+
+  return {
+    triggerCharacters: [' ', ':', '@', '<', '/'],
+
+    provideCompletionItems(model, position, context) {
+      const line = model.getLineContent(position.lineNumber);
+      const prefix = line.slice(0, position.column - 1);
+      const suffix = line.slice(position.column - 1);
+      const { files, filePath } = getUsdaWorkspace();
+      // The range of the text typed just before the cursor
+      const typed = (length: number): IRange => ({
+        startLineNumber: position.lineNumber,
+        startColumn: position.column - length,
+        endLineNumber: position.lineNumber,
+        endColumn: position.column,
+      });
+
+      // Inside @...@: workspace files, relative to this file unless an
+      // absolute path is being typed
+      const asset = /@([^@]*)$/.exec(prefix);
+      if (asset && (prefix.split('@').length - 1) % 2 === 1) {
+        const base = asset[1].startsWith('/') ? null : filePath;
+        const closing = suffix.startsWith('@') ? '' : '@';
+        const suggestions = [...files.keys()]
+          .filter((path) => path !== filePath)
+          .map((path): languages.CompletionItem => {
+            const label = base ? getRelativePath(base, path) : path;
+            return {
+              label,
+              kind: CompletionItemKind.File,
+              insertText: label + closing,
+              range: typed(asset[1].length),
+            };
+          });
+        return { suggestions };
+      }
+
+      // Inside <...>: prims of the layer an asset path before it names, or of
+      // this layer for internal references, relationship targets and inherits
+      const target = /<([^<>\s]*)$/.exec(prefix);
+      if (target) {
+        const referenced = /@([^@]*)@\s*<[^<>\s]*$/.exec(prefix);
+        const content = referenced
+          ? files.get(resolveRelativePath(filePath ?? '/', referenced[1]))?.content
+          : model.getValue();
+        if (content === undefined) return { suggestions: [] };
+        const suggestions = listPrimPaths(content).map(
+          (path, index): languages.CompletionItem => ({
+            label: path,
+            kind: CompletionItemKind.Reference,
+            insertText: path,
+            sortText: String(index).padStart(6, '0'),
+            range: typed(target[1].length),
+          })
+        );
+        return { suggestions };
+      }
+
+      // After xformOp: in a declaration or in xformOpOrder, op names; at the
+      // start of a line, whole declarations with their usual value type
+      const op = /(\S*?)xformOp:([\w:]*)$/.exec(prefix);
+      if (op) {
+        const declaring = /^\s*$/.test(prefix.slice(0, op.index)) && op[1] === '';
+        const suggestions = XFORM_OPS.map(
+          (xformOp, index): languages.CompletionItem => ({
+            label: xformOp.name,
+            kind: CompletionItemKind.Method,
+            detail: xformOp.typeName,
+            documentation: xformOp.doc,
+            insertText: declaring
+              ? `${xformOp.typeName} xformOp:${xformOp.name} = \${1:${xformOp.fallback}}`
+              : xformOp.name,
+            insertTextRules: declaring ? snippet : undefined,
+            filterText: declaring ? `xformOp:${xformOp.name}` : xformOp.name,
+            sortText: String(index).padStart(2, '0'),
+            range: typed(declaring ? op[2].length + 'xformOp:'.length : op[2].length),
+          })
+        );
+        return { suggestions };
+      }
+
+      // After def, class or over: prim types, with a named block when the
+      // rest of the line is empty
+      const specifier = /\b(?:def|class|over)\s+(\w*)$/.exec(prefix);
+      if (specifier) {
+        const block = suffix.trim() === '';
+        const suggestions = USDA_PRIM_TYPES.map(
+          (typeName): languages.CompletionItem => ({
+            label: typeName,
+            kind: CompletionItemKind.Class,
+            insertText: block ? `${typeName} "\${1:${typeName}}"\n{\n\t$0\n}` : typeName,
+            insertTextRules: block ? snippet : undefined,
+            range: typed(specifier[1].length),
+          })
+        );
+        return { suggestions };
+      }
+
+      // At the start of a statement inside a prim block: the properties its
+      // type supports that the block does not author yet. Not offered when a
+      // space triggers completion, so typing indentation stays quiet.
+      const statement = /^\s*((?:(?:uniform|custom)\s+)*)([\w:]*)$/.exec(prefix);
+      if (statement && context.triggerCharacter !== ' ') {
+        const enclosing = findEnclosingPrim(model.getValue(), model.getOffsetAt(position));
+        if (!enclosing?.typeName) return { suggestions: [] };
+        const authored = new Set(enclosing.spec.properties.map((property) => property.name));
+        const typedUniform = /\buniform\b/.test(statement[1]);
+        const suggestions = getSchemaProperties(enclosing.typeName)
+          .filter((property) => !authored.has(property.name))
+          .map(
+            (property): languages.CompletionItem => ({
+              label: property.name,
+              kind: property.typeName === 'rel' ? CompletionItemKind.Reference : CompletionItemKind.Property,
+              detail: `${property.uniform ? 'uniform ' : ''}${property.typeName}`,
+              documentation: property.fallback ? `${property.doc} Fallback: ${property.fallback}` : property.doc,
+              insertText: propertySnippet(property, typedUniform),
+              insertTextRules: snippet,
+              filterText: property.name,
+              range: typed(statement[2].length),
+            })
+          );
+        return { suggestions };
+      }
+
+      return { suggestions: [] };
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import type { editor } from 'monaco-editor';
+import type { ParseError } from '../types/virtualFileSystem';
+
+type Monaco = typeof import('monaco-editor');
+
+const MARKER_OWNER = 'usda-stage';
+
+// Show a file's syntax and composition errors in the editor. The error type
+// becomes the marker's code, which the quick fixes look for; an error without
+// a position marks the first line.
+export function setUsdaMarkers(monaco: Monaco, model: editor.ITextModel, errors: ParseError[]) {
+  const markers = errors.map((error): editor.IMarkerData => {
+    const line = Math.min(error.line ?? 1, model.getLineCount());
+    const wholeLine = error.line === undefined || error.column === undefined;
+    return {
+      severity: error.type === 'missing_default_prim' ? monaco.MarkerSeverity.Warning : monaco.MarkerSeverity.Error,
+      message: error.message,
+      code: error.type,
+      source: 'usda',
+      startLineNumber: line,
+      startColumn: wholeLine ? 1 : error.column!,
+      endLineNumber: wholeLine ? line : (error.endLine ?? line),
+      endColumn: wholeLine ? model.getLineMaxColumn(line) : (error.endColumn ?? error.column!),
+    };
+  });
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+}
@@ -0,0 +1,197 @@
+import type { IPosition, IRange, editor, languages } from 'monaco-editor';
+import { parseLayer } from '../parsers/usdaLayerParser';
+import { parseLayerMetadata } from '../parsers/usdaParser';
+import type { PrimSpec, PropertySpec } from '../parsers/usdaAst';
+import type { SourceRange } from '../parsers/usdaLexer';
+import { isBinaryAsset, resolveRelativePath } from '../hooks/useVirtualFileSystem';
+import { findEnclosingPrim } from './usdaCompletion';
+import { getSchemaProperties, XFORM_OPS } from './usdaSchemas';
+import { getUsdaWorkspace } from './usdaWorkspace';
+
+// Go to definition for asset and prim paths (@file@</Prim>, </Prim>) and
+// hovers for asset paths and attributes. Asset paths resolve against the
+// open file, as the stage resolver does.
+
+type Monaco = typeof import('monaco-editor');
+
+// Root prims listed in an asset path's hover
+const HOVER_ROOT_PRIMS = 8;
+
+const FIRST_LINE: IRange = { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 1 };
+
+// An asset path, possibly with a prim path, or a prim path on its own
+interface PathAtPosition {
+  assetPath?: string;
+  primPath?: string; // Without a property part such as .outputs:surface
+  range: IRange;
+}
+
+function findPathAt(model: editor.ITextModel, position: IPosition): PathAtPosition | undefined {
+  const line = model.getLineContent(position.lineNumber);
+  for (const match of line.matchAll(/@([^@\s]+)@(?:<([^<>\s]*)>)?|<([^<>\s]+)>/g)) {
+    const startColumn = match.index + 1;
+    const endColumn = startColumn + match[0].length;
+    if (position.column < startColumn || position.column >= endColumn) continue;
+    const primPath = match[2] || match[3];
+    return {
+      assetPath: match[1],
+      primPath: primPath?.split('.')[0],
+      range: { startLineNumber: position.lineNumber, startColumn, endLineNumber: position.lineNumber, endColumn },
+    };
+  }
+  return undefined;
+}
+
+function findPrimSpec(prims: PrimSpec[], path: string): PrimSpec | undefined {
+  let found: PrimSpec | undefined;
+  let current = prims;
+  for (const name of path.split('/').filter(Boolean)) {
+    found = current.find((prim) => prim.name === name);
+    if (!found) return undefined;
+    current = found.children;
+  }
+  return found;
+}
+
+function toRange(start: SourceRange, end: SourceRange): IRange {
+  return {
+    startLineNumber: start.start.line,
+    startColumn: start.start.column,
+    endLineNumber: end.end.line,
+    endColumn: end.end.column,
+  };
+}
+
+function primSummary(prim: PrimSpec): string {
+  return `\`${prim.specifier}${prim.typeName ? ` ${prim.typeName}` : ''} "${prim.name}"\``;
+}
+
+// Where an asset path leads: the resolved file, whether the stage can use
+// it, its root prims, and whether the prim path after it exists
+function assetHover(target: PathAtPosition, filePath: string): string[] {
+  const { files } = getUsdaWorkspace();
+  const resolved = resolveRelativePath(filePath, target.assetPath!);
+  const file = files.get(resolved);
+  const lines = [`**${resolved}**`];
+  if (!file) return [...lines, 'Not in the workspace'];
+  if (isBinaryAsset(resolved)) return [...lines, 'Image asset in the workspace'];
+  lines.push(file.active ? 'Active layer' : 'Inactive: left out of stage composition');
+
+  const { layer } = parseLayer(file.content);
+  const { defaultPrim } = parseLayerMetadata(layer);
+  const roots = layer.prims.slice(0, HOVER_ROOT_PRIMS).map((prim) => {
+    return `- ${primSummary(prim)}${prim.name === defaultPrim ? ' (defaultPrim)' : ''}`;
+  });
+  if (layer.prims.length > HOVER_ROOT_PRIMS) roots.push(`- … ${layer.prims.length - HOVER_ROOT_PRIMS} more`);
+  lines.push(layer.prims.length ? `Root prims:\n${roots.join('\n')}` : 'No root prims');
+
+  if (target.primPath) {
+    const prim = findPrimSpec(layer.prims, target.primPath);
+    const primPath = `\`<${target.primPath}>\``;
+    lines.push(prim ? `${primPath} is ${primSummary(prim)}` : `${primPath} is not in this layer`);
+  }
+  return lines;
+}
+
+// The declaration as authored, then what the prim's schema says about it
+function propertyHover(property: PropertySpec, primType: string | undefined): string[] {
+  const authoredType =
+    property.kind === 'relationship'
+      ? 'rel'
+      : `${property.variability === 'uniform' ? 'uniform ' : ''}${property.typeName}${property.isArray ? '[]' : ''}`;
+  const lines = [`\`${property.custom ? 'custom ' : ''}${authoredType} ${property.name}\``];
+
+  // xformOp:rotateXYZ:spin is a rotateXYZ op
+  const opName = property.name.startsWith('xformOp:') ? property.name.slice('xformOp:'.length) : undefined;
+  const op =
+    opName !== undefined
+      ? (XFORM_OPS.find(({ name }) => name === opName) ?? XFORM_OPS.find(({ name }) => opName.startsWith(`${name}:`)))
+      : undefined;
+  if (op) return [...lines, op.doc, `Value type: \`${authoredType}\``];
+
+  const schema = primType
+    ? getSchemaProperties(primType).find((candidate) => candidate.name === property.name)
+    : undefined;
+  if (!schema) {
+    return [...lines, primType ? `Not a built-in property of ${primType}` : 'Not a built-in property'];
+  }
+  const schemaType = `${schema.uniform ? 'uniform ' : ''}${schema.typeName}`;
+  lines.push(schema.doc, `Value type: \`${schemaType}\``);
+  if (schemaType !== authoredType) {
+    lines.push(`The schema declares \`${schemaType}\`; this is authored as \`${authoredType}\``);
+  }
+  if (schema.fallback) lines.push(`Fallback: \`${schema.fallback}\``);
+  if (schema.allowedTokens) {
+    lines.push(`Allowed tokens: ${schema.allowedTokens.map((token) => `\`${token}\``).join(', ')}`);
+  }
+  return lines;
+}
+
+export function createUsdaDefinitionProvider(monaco: Monaco): languages.DefinitionProvider {
+  return {
+    provideDefinition(model, position) {
+      const { files, filePath } = getUsdaWorkspace();
+      const target = findPathAt(model, position);
+      if (!target || !filePath) return null;
+
+      const targetPath = target.assetPath ? resolveRelativePath(filePath, target.assetPath) : filePath;
+      const content = targetPath === filePath ? model.getValue() : files.get(targetPath)?.content;
+      if (content === undefined || isBinaryAsset(targetPath)) return null;
+
+      // Without a prim path, an asset path leads to the layer's defaultPrim
+      const { layer } = parseLayer(content);
+      const defaultPrim = parseLayerMetadata(layer).defaultPrim;
+      const primPath = target.primPath ?? (defaultPrim && `/${defaultPrim}`);
+      const prim = primPath ? findPrimSpec(layer.prims, primPath) : undefined;
+      if (!prim && !target.assetPath) return null;
+
+      return {
+        uri: targetPath === filePath ? model.uri : monaco.Uri.file(targetPath),
+        range: prim ? toRange(prim.range, prim.nameRange) : FIRST_LINE,
+      };
+    },
+  };
+}
+
+// Definitions in other files open through the workspace, in a tab
+export function createUsdaEditorOpener(): editor.ICodeEditorOpener {
+  return {
+    openCodeEditor(_source, resource, selectionOrPosition) {
+      const { files, openLocation } = getUsdaWorkspace();
+      if (!openLocation || !files.has(resource.path)) return false;
+      let range = FIRST_LINE;
+      if (selectionOrPosition && 'startLineNumber' in selectionOrPosition) {
+        range = selectionOrPosition;
+      } else if (selectionOrPosition) {
+        const { lineNumber, column } = selectionOrPosition;
+        range = { startLineNumber: lineNumber, startColumn: column, endLineNumber: lineNumber, endColumn: column };
+      }
+      openLocation(resource.path, range);
+      return true;
+    },
+  };
+}
+
+export function createUsdaHoverProvider(): languages.HoverProvider {
+  return {
+    provideHover(model, position) {
+      const { filePath } = getUsdaWorkspace();
+      const target = findPathAt(model, position);
+      if (target?.assetPath && filePath) {
+        return { range: target.range, contents: assetHover(target, filePath).map((value) => ({ value })) };
+      }
+
+      const content = model.getValue();
+      const offset = model.getOffsetAt(position);
+      const enclosing = findEnclosingPrim(content, offset);
+      const property = enclosing?.spec.properties.find(
+        ({ nameRange }) => offset >= nameRange.start.offset && offset < nameRange.end.offset
+      );
+      if (!enclosing || !property) return null;
+      return {
+        range: toRange(property.nameRange, property.nameRange),
+        contents: propertyHover(property, enclosing.typeName).map((value) => ({ value })),
+      };
+    },
+  };
+}
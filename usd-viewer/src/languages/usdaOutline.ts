@@ -0,0 +1,140 @@
+import type { IPosition, IRange, editor, languages } from 'monaco-editor';
+import { parseLayer } from '../parsers/usdaLayerParser';
+import { tokenize, type SourceRange, type Token } from '../parsers/usdaLexer';
+import type { PrimSpec, PropertySpec, VariantSetSpec, VariantSpec } from '../parsers/usdaAst';
+
+// The structure of a usda layer for the editor: the prim hierarchy as
+// document symbols (Go to Symbol, breadcrumbs) and folding on brackets, which
+// unlike indentation folding does not depend on how the file is indented.
+
+type Monaco = typeof import('monaco-editor');
+
+const CLOSING_BRACKETS: Record<string, string> = { '}': '{', ')': '(', ']': '[' };
+
+// The symbols of the model version last asked for; the outline and the
+// breadcrumbs ask for the same version on every cursor move
+let cached: { uri: string; versionId: number; symbols: languages.DocumentSymbol[] } | undefined;
+
+function toRange({ start, end }: SourceRange): IRange {
+  return { startLineNumber: start.line, startColumn: start.column, endLineNumber: end.line, endColumn: end.column };
+}
+
+function containsPosition(range: IRange, { lineNumber, column }: IPosition): boolean {
+  if (lineNumber < range.startLineNumber || lineNumber > range.endLineNumber) return false;
+  if (lineNumber === range.startLineNumber && column < range.startColumn) return false;
+  return lineNumber !== range.endLineNumber || column <= range.endColumn;
+}
+
+function buildSymbols(monaco: Monaco, content: string): languages.DocumentSymbol[] {
+  const { SymbolKind } = monaco.languages;
+  const symbol = (
+    spec: { name: string; range: SourceRange; nameRange: SourceRange },
+    kind: languages.SymbolKind,
+    detail: string,
+    children: languages.DocumentSymbol[] = []
+  ): languages.DocumentSymbol => ({
+    name: spec.name,
+    detail,
+    kind,
+    tags: [],
+    range: toRange(spec.range),
+    selectionRange: toRange(spec.nameRange),
+    children: children.sort((a, b) => a.range.startLineNumber - b.range.startLineNumber),
+  });
+
+  const property = (spec: PropertySpec) =>
+    spec.kind === 'relationship'
+      ? symbol(spec, SymbolKind.Field, 'rel')
+      : symbol(spec, SymbolKind.Property, `${spec.typeName}${spec.isArray ? '[]' : ''}`);
+  // Properties, child prims and variant sets in document order
+  const contents = (spec: PrimSpec | VariantSpec) => [
+    ...spec.properties.map(property),
+    ...spec.children.map(prim),
+    ...spec.variantSets.map(variantSet),
+  ];
+  const prim = (spec: PrimSpec): languages.DocumentSymbol =>
+    symbol(spec, SymbolKind.Class, [spec.specifier, spec.typeName].filter(Boolean).join(' '), contents(spec));
+  const variantSet = (spec: VariantSetSpec): languages.DocumentSymbol =>
+    symbol(spec, SymbolKind.Enum, 'variantSet', spec.variants.map(variant));
+  const variant = (spec: VariantSpec): languages.DocumentSymbol =>
+    symbol(spec, SymbolKind.EnumMember, 'variant', contents(spec));
+
+  return parseLayer(content).layer.prims.map(prim);
+}
+
+export function getUsdaSymbols(monaco: Monaco, model: editor.ITextModel): languages.DocumentSymbol[] {
+  const uri = model.uri.toString();
+  const versionId = model.getVersionId();
+  if (cached?.uri !== uri || cached.versionId !== versionId) {
+    cached = { uri, versionId, symbols: buildSymbols(monaco, model.getValue()) };
+  }
+  return cached.symbols;
+}
+
+// The symbols around a position, outermost first
+export function findSymbolPath(symbols: languages.DocumentSymbol[], position: IPosition): languages.DocumentSymbol[] {
+  const symbol = symbols.find(({ range }) => containsPosition(range, position));
+  return symbol ? [symbol, ...findSymbolPath(symbol.children ?? [], position)] : [];
+}
+
+export function createUsdaDocumentSymbolProvider(monaco: Monaco): languages.DocumentSymbolProvider {
+  return {
+    displayName: 'USDA',
+    provideDocumentSymbols(model) {
+      return getUsdaSymbols(monaco, model);
+    },
+  };
+}
+
+// Folds every multi-line { }, ( ) and [ ] pair, which covers prim bodies,
+// metadata, arrays, dictionaries and timeSamples blocks, plus each prim and
+// variant from its header line. Brackets come from the lexer, so those in
+// strings and comments are ignored; unbalanced ones fold nothing.
+export function createUsdaFoldingRangeProvider(): languages.FoldingRangeProvider {
+  return {
+    provideFoldingRanges(model) {
+      const content = model.getValue();
+      // Monaco folds once per line: keep the outermost range starting there
+      const ranges = new Map<number, number>();
+      const add = (start: number, end: number) => {
+        if (end > start && end > (ranges.get(start) ?? 0)) ranges.set(start, end);
+      };
+
+      const tokens = tokenize(content);
+      const open: Token[] = [];
+      tokens.forEach((token, index) => {
+        if (token.kind !== 'punctuation') return;
+        if (token.value === '{' || token.value === '(' || token.value === '[') {
+          open.push(token);
+          return;
+        }
+        const opening = CLOSING_BRACKETS[token.value];
+        if (!opening) return;
+        let at = open.length - 1;
+        while (at >= 0 && open[at].value !== opening) at--;
+        if (at < 0) return;
+        const start = open[at].range.start.line;
+        open.length = at;
+        // A closing bracket that starts its line stays visible
+        const line = token.range.start.line;
+        add(start, tokens[index - 1].range.end.line < line ? line - 1 : line);
+      });
+
+      // A prim whose { is on the line after its name folds from the name
+      const visit = (spec: PrimSpec | VariantSpec | VariantSetSpec) => {
+        add(spec.range.start.line, spec.range.end.line - 1);
+        if (spec.kind === 'variantSet') {
+          spec.variants.forEach(visit);
+        } else {
+          spec.children.forEach(visit);
+          spec.variantSets.forEach(visit);
+        }
+      };
+      parseLayer(content).layer.prims.forEach(visit);
+
+      return [...ranges]
+        .sort(([a], [b]) => a - b)
+        .map(([start, end]): languages.FoldingRange => ({ start, end }));
+    },
+  };
+}
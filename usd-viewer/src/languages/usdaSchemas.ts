@@ -0,0 +1,574 @@
+// Built-in properties of the common prim schemas, for completion. Each schema
+// lists what it adds to its base; a property it redeclares replaces the base's.
+
+// Prim schema types, highlighted by the tokenizer and offered after def
+export const USDA_PRIM_TYPES = [
+  'Xform',
+  'Sphere',
+  'Cube',
+  'Cylinder',
+  'Cone',
+  'Capsule',
+  'Plane',
+  'Mesh',
+  'Scope',
+  'Material',
+  'Shader',
+  'Camera',
+  'DistantLight',
+  'DomeLight',
+  'RectLight',
+  'SphereLight',
+  'DiskLight',
+  'CylinderLight',
+  'GeomSubset',
+  'Points',
+  'BasisCurves',
+  'NurbsCurves',
+  'NurbsPatch',
+  'PointInstancer',
+  'SkelRoot',
+  'Skeleton',
+  'SkelAnimation',
+  'BlendShape',
+  'Volume',
+  'OpenVDBAsset',
+  'RenderSettings',
+  'RenderProduct',
+  'RenderVar',
+];
+
+export interface SchemaProperty {
+  name: string;
+  typeName: string;        // e.g. "double", "point3f[]"; "rel" for relationships
+  uniform?: boolean;
+  fallback?: string;       // USDA text of the schema's fallback value
+  allowedTokens?: string[];
+  doc: string;
+}
+
+interface Schema {
+  base?: string;
+  properties: SchemaProperty[];
+}
+
+const AXIS_TOKENS = ['X', 'Y', 'Z'];
+
+const SCHEMAS: Record<string, Schema> = {
+  Imageable: {
+    properties: [
+      {
+        name: 'visibility',
+        typeName: 'token',
+        fallback: '"inherited"',
+        allowedTokens: ['inherited', 'invisible'],
+        doc: 'Whether the prim and its descendants are drawn; invisible hides the whole subtree.',
+      },
+      {
+        name: 'purpose',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"default"',
+        allowedTokens: ['default', 'render', 'proxy', 'guide'],
+        doc: 'Which renders include the prim: default, render (final quality), proxy (a stand-in) or guide.',
+      },
+      {
+        name: 'proxyPrim',
+        typeName: 'rel',
+        doc: 'The proxy-purpose prim that stands in for this render-purpose prim.',
+      },
+      {
+        name: 'material:binding',
+        typeName: 'rel',
+        doc: 'The Material bound to this prim and, unless they bind their own, its descendants.',
+      },
+    ],
+  },
+  Xformable: {
+    base: 'Imageable',
+    properties: [
+      {
+        name: 'xformOpOrder',
+        typeName: 'token[]',
+        uniform: true,
+        fallback: '["xformOp:translate"]',
+        doc: 'The xformOp attributes that make up the local transform, outermost first.',
+      },
+    ],
+  },
+  Boundable: {
+    base: 'Xformable',
+    properties: [
+      {
+        name: 'extent',
+        typeName: 'float3[]',
+        fallback: '[(-1, -1, -1), (1, 1, 1)]',
+        doc: 'Bounds in local space, as (min, max) corners.',
+      },
+    ],
+  },
+  Gprim: {
+    base: 'Boundable',
+    properties: [
+      {
+        name: 'primvars:displayColor',
+        typeName: 'color3f[]',
+        fallback: '[(0.5, 0.5, 0.5)]',
+        doc: 'Color shown when no material is bound.',
+      },
+      {
+        name: 'primvars:displayOpacity',
+        typeName: 'float[]',
+        fallback: '[1]',
+        doc: 'Opacity shown when no material is bound.',
+      },
+      { name: 'doubleSided', typeName: 'bool', uniform: true, fallback: 'false', doc: 'Whether back faces are drawn.' },
+      {
+        name: 'orientation',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"rightHanded"',
+        allowedTokens: ['rightHanded', 'leftHanded'],
+        doc: 'Winding of front faces: rightHanded (counter-clockwise) or leftHanded.',
+      },
+    ],
+  },
+  PointBased: {
+    base: 'Gprim',
+    properties: [
+      { name: 'points', typeName: 'point3f[]', fallback: '[]', doc: 'Vertex positions in local space.' },
+      { name: 'normals', typeName: 'normal3f[]', fallback: '[]', doc: 'Normals, per vertex or per face vertex.' },
+      {
+        name: 'velocities',
+        typeName: 'vector3f[]',
+        fallback: '[]',
+        doc: 'Velocity of each point, in units per second, for motion blur.',
+      },
+    ],
+  },
+
+  Scope: {
+    base: 'Imageable',
+    properties: [],
+  },
+  Xform: {
+    base: 'Xformable',
+    properties: [],
+  },
+  Sphere: {
+    base: 'Gprim',
+    properties: [
+      { name: 'radius', typeName: 'double', fallback: '1', doc: 'Radius of the shape.' },
+    ],
+  },
+  Cube: {
+    base: 'Gprim',
+    properties: [
+      { name: 'size', typeName: 'double', fallback: '2', doc: 'Edge length of the cube.' },
+    ],
+  },
+  Cylinder: {
+    base: 'Gprim',
+    properties: [
+      { name: 'radius', typeName: 'double', fallback: '1', doc: 'Radius of the shape.' },
+      { name: 'height', typeName: 'double', fallback: '2', doc: 'Size along the axis.' },
+      {
+        name: 'axis',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"Z"',
+        allowedTokens: AXIS_TOKENS,
+        doc: 'The axis the shape is aligned to.',
+      },
+    ],
+  },
+  Cone: {
+    base: 'Gprim',
+    properties: [
+      { name: 'radius', typeName: 'double', fallback: '1', doc: 'Radius of the shape.' },
+      { name: 'height', typeName: 'double', fallback: '2', doc: 'Size along the axis.' },
+      {
+        name: 'axis',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"Z"',
+        allowedTokens: AXIS_TOKENS,
+        doc: 'The axis the shape is aligned to.',
+      },
+    ],
+  },
+  Capsule: {
+    base: 'Gprim',
+    properties: [
+      { name: 'radius', typeName: 'double', fallback: '0.5', doc: 'Radius of the shape.' },
+      { name: 'height', typeName: 'double', fallback: '1', doc: 'Size along the axis.' },
+      {
+        name: 'axis',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"Z"',
+        allowedTokens: AXIS_TOKENS,
+        doc: 'The axis the shape is aligned to.',
+      },
+    ],
+  },
+  Plane: {
+    base: 'Gprim',
+    properties: [
+      {
+        name: 'width',
+        typeName: 'double',
+        fallback: '2',
+        doc: 'Size along the first axis in the plane (X when axis is Z).',
+      },
+      {
+        name: 'length',
+        typeName: 'double',
+        fallback: '2',
+        doc: 'Size along the second axis in the plane (Y when axis is Z).',
+      },
+      {
+        name: 'axis',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"Z"',
+        allowedTokens: AXIS_TOKENS,
+        doc: 'The plane\'s normal.',
+      },
+    ],
+  },
+  Mesh: {
+    base: 'PointBased',
+    properties: [
+      { name: 'faceVertexCounts', typeName: 'int[]', fallback: '[]', doc: 'Number of vertices of each face.' },
+      {
+        name: 'faceVertexIndices',
+        typeName: 'int[]',
+        fallback: '[]',
+        doc: 'Indices into points of every face vertex, face by face.',
+      },
+      {
+        name: 'subdivisionScheme',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"catmullClark"',
+        allowedTokens: ['catmullClark', 'loop', 'bilinear', 'none'],
+        doc: 'Subdivision surface scheme; none renders the polygons as authored.',
+      },
+      { name: 'primvars:st', typeName: 'texCoord2f[]', fallback: '[]', doc: 'Texture coordinates.' },
+    ],
+  },
+  Points: {
+    base: 'PointBased',
+    properties: [
+      { name: 'widths', typeName: 'float[]', fallback: '[]', doc: 'Diameter of each point.' },
+    ],
+  },
+  BasisCurves: {
+    base: 'PointBased',
+    properties: [
+      { name: 'curveVertexCounts', typeName: 'int[]', fallback: '[]', doc: 'Number of vertices of each curve.' },
+      { name: 'widths', typeName: 'float[]', fallback: '[]', doc: 'Width of the curves at each vertex.' },
+      {
+        name: 'type',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"cubic"',
+        allowedTokens: ['cubic', 'linear'],
+        doc: 'Whether curves are linear or cubic.',
+      },
+      {
+        name: 'basis',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"bezier"',
+        allowedTokens: ['bezier', 'bspline', 'catmullRom'],
+        doc: 'Basis of cubic curves.',
+      },
+      {
+        name: 'wrap',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"nonperiodic"',
+        allowedTokens: ['nonperiodic', 'periodic', 'pinned'],
+        doc: 'Whether curves are open (nonperiodic), closed (periodic) or pass through their end points (pinned).',
+      },
+    ],
+  },
+  PointInstancer: {
+    base: 'Boundable',
+    properties: [
+      { name: 'prototypes', typeName: 'rel', doc: 'The prims to instance, indexed by protoIndices.' },
+      { name: 'protoIndices', typeName: 'int[]', fallback: '[]', doc: 'Prototype of each instance.' },
+      { name: 'positions', typeName: 'point3f[]', fallback: '[]', doc: 'Position of each instance.' },
+      { name: 'orientations', typeName: 'quath[]', fallback: '[]', doc: 'Rotation of each instance.' },
+      { name: 'scales', typeName: 'float3[]', fallback: '[]', doc: 'Scale of each instance.' },
+    ],
+  },
+  GeomSubset: {
+    properties: [
+      {
+        name: 'elementType',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"face"',
+        allowedTokens: ['face'],
+        doc: 'Kind of element indices refers to.',
+      },
+      { name: 'indices', typeName: 'int[]', fallback: '[]', doc: 'Indices of the faces in the subset.' },
+      {
+        name: 'familyName',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"materialBind"',
+        doc: 'The family the subset belongs to; materialBind subsets can have their own material binding.',
+      },
+      { name: 'material:binding', typeName: 'rel', doc: 'The Material bound to the subset\'s faces.' },
+    ],
+  },
+  Camera: {
+    base: 'Xformable',
+    properties: [
+      {
+        name: 'projection',
+        typeName: 'token',
+        fallback: '"perspective"',
+        allowedTokens: ['perspective', 'orthographic'],
+        doc: 'perspective or orthographic.',
+      },
+      {
+        name: 'focalLength',
+        typeName: 'float',
+        fallback: '50',
+        doc: 'Focal length, in tenths of a scene unit (millimeters by convention).',
+      },
+      {
+        name: 'horizontalAperture',
+        typeName: 'float',
+        fallback: '20.955',
+        doc: 'Film back width, in the units of focalLength.',
+      },
+      {
+        name: 'verticalAperture',
+        typeName: 'float',
+        fallback: '15.2908',
+        doc: 'Film back height, in the units of focalLength.',
+      },
+      {
+        name: 'horizontalApertureOffset',
+        typeName: 'float',
+        fallback: '0',
+        doc: 'Horizontal film back shift, in the units of focalLength.',
+      },
+      {
+        name: 'verticalApertureOffset',
+        typeName: 'float',
+        fallback: '0',
+        doc: 'Vertical film back shift, in the units of focalLength.',
+      },
+      {
+        name: 'clippingRange',
+        typeName: 'float2',
+        fallback: '(1, 1000000)',
+        doc: 'Near and far clipping distances, in scene units.',
+      },
+      {
+        name: 'focusDistance',
+        typeName: 'float',
+        fallback: '0',
+        doc: 'Distance to the plane in focus, for depth of field.',
+      },
+      {
+        name: 'fStop',
+        typeName: 'float',
+        fallback: '0',
+        doc: 'Lens aperture for depth of field; 0 keeps everything in focus.',
+      },
+    ],
+  },
+
+  // UsdLux: the LightAPI inputs every light has, then each light's own
+  Light: {
+    base: 'Xformable',
+    properties: [
+      { name: 'inputs:intensity', typeName: 'float', fallback: '1', doc: 'Scales the brightness.' },
+      {
+        name: 'inputs:exposure',
+        typeName: 'float',
+        fallback: '0',
+        doc: 'Scales the brightness by 2 to the power of exposure.',
+      },
+      { name: 'inputs:color', typeName: 'color3f', fallback: '(1, 1, 1)', doc: 'Linear color of the emitted light.' },
+      { name: 'inputs:diffuse', typeName: 'float', fallback: '1', doc: 'Multiplier for the diffuse response.' },
+      { name: 'inputs:specular', typeName: 'float', fallback: '1', doc: 'Multiplier for the specular response.' },
+      {
+        name: 'inputs:normalize',
+        typeName: 'bool',
+        fallback: 'false',
+        doc: 'Divide the brightness by the light\'s area, so resizing the light keeps its power.',
+      },
+      {
+        name: 'inputs:enableColorTemperature',
+        typeName: 'bool',
+        fallback: 'false',
+        doc: 'Tint the color by colorTemperature.',
+      },
+      {
+        name: 'inputs:colorTemperature',
+        typeName: 'float',
+        fallback: '6500',
+        doc: 'Color temperature in kelvin, when enabled.',
+      },
+    ],
+  },
+  DistantLight: {
+    base: 'Light',
+    properties: [
+      {
+        name: 'inputs:intensity',
+        typeName: 'float',
+        fallback: '50000',
+        doc: 'Brightness; the fallback is about that of direct sunlight.',
+      },
+      {
+        name: 'inputs:angle',
+        typeName: 'float',
+        fallback: '0.53',
+        doc: 'Angular diameter of the light, in degrees; the sun is about 0.53.',
+      },
+    ],
+  },
+  DomeLight: {
+    base: 'Light',
+    properties: [
+      { name: 'inputs:texture:file', typeName: 'asset', fallback: '@@', doc: 'Environment map lighting the scene.' },
+      {
+        name: 'inputs:texture:format',
+        typeName: 'token',
+        fallback: '"automatic"',
+        allowedTokens: ['automatic', 'latlong', 'mirroredBall', 'angular', 'cubeMapVerticalCross'],
+        doc: 'Layout of the environment map.',
+      },
+    ],
+  },
+  RectLight: {
+    base: 'Light',
+    properties: [
+      { name: 'inputs:width', typeName: 'float', fallback: '1', doc: 'Width of the rectangle.' },
+      { name: 'inputs:height', typeName: 'float', fallback: '1', doc: 'Height of the rectangle.' },
+      { name: 'inputs:texture:file', typeName: 'asset', fallback: '@@', doc: 'Image the rectangle emits.' },
+    ],
+  },
+  SphereLight: {
+    base: 'Light',
+    properties: [
+      { name: 'inputs:radius', typeName: 'float', fallback: '0.5', doc: 'Radius of the light.' },
+      { name: 'treatAsPoint', typeName: 'bool', fallback: 'false', doc: 'Render as a point light of zero radius.' },
+    ],
+  },
+  DiskLight: {
+    base: 'Light',
+    properties: [
+      { name: 'inputs:radius', typeName: 'float', fallback: '0.5', doc: 'Radius of the light.' },
+    ],
+  },
+  CylinderLight: {
+    base: 'Light',
+    properties: [
+      { name: 'inputs:length', typeName: 'float', fallback: '1', doc: 'Length of the cylinder, along X.' },
+      { name: 'inputs:radius', typeName: 'float', fallback: '0.5', doc: 'Radius of the light.' },
+      { name: 'treatAsLine', typeName: 'bool', fallback: 'false', doc: 'Render as a line light of zero radius.' },
+    ],
+  },
+
+  Material: {
+    properties: [
+      { name: 'outputs:surface', typeName: 'token', doc: 'Surface shader, connected to a Shader\'s output.' },
+      { name: 'outputs:displacement', typeName: 'token', doc: 'Displacement shader, connected to a Shader\'s output.' },
+      { name: 'outputs:volume', typeName: 'token', doc: 'Volume shader, connected to a Shader\'s output.' },
+    ],
+  },
+  Shader: {
+    properties: [
+      {
+        name: 'info:id',
+        typeName: 'token',
+        uniform: true,
+        fallback: '"UsdPreviewSurface"',
+        doc: 'Identifier of the shader, e.g. UsdPreviewSurface or UsdUVTexture.',
+      },
+    ],
+  },
+};
+
+// Every property a prim type supports, base schemas' first; empty for types
+// not in the table
+export function getSchemaProperties(typeName: string): SchemaProperty[] {
+  const properties = new Map<string, SchemaProperty>();
+  const visit = (name: string) => {
+    const schema = SCHEMAS[name];
+    if (!schema) return;
+    if (schema.base) visit(schema.base);
+    schema.properties.forEach((property) => properties.set(property.name, property));
+  };
+  visit(typeName);
+  return [...properties.values()];
+}
+
+// Transform operations, with the value type each is usually authored with
+export const XFORM_OPS: { name: string; typeName: string; fallback: string; doc: string }[] = [
+  { name: 'translate', typeName: 'double3', fallback: '(0, 0, 0)', doc: 'Translation.' },
+  {
+    name: 'translate:pivot',
+    typeName: 'float3',
+    fallback: '(0, 0, 0)',
+    doc: 'Pivot for the ops that follow it; paired with !invert!xformOp:translate:pivot.',
+  },
+  { name: 'rotateX', typeName: 'float', fallback: '0', doc: 'Rotation about X, in degrees.' },
+  { name: 'rotateY', typeName: 'float', fallback: '0', doc: 'Rotation about Y, in degrees.' },
+  { name: 'rotateZ', typeName: 'float', fallback: '0', doc: 'Rotation about Z, in degrees.' },
+  {
+    name: 'rotateXYZ',
+    typeName: 'float3',
+    fallback: '(0, 0, 0)',
+    doc: 'Rotation in degrees, about X, then Y, then Z.',
+  },
+  {
+    name: 'rotateXZY',
+    typeName: 'float3',
+    fallback: '(0, 0, 0)',
+    doc: 'Rotation in degrees, about X, then Z, then Y.',
+  },
+  {
+    name: 'rotateYXZ',
+    typeName: 'float3',
+    fallback: '(0, 0, 0)',
+    doc: 'Rotation in degrees, about Y, then X, then Z.',
+  },
+  {
+    name: 'rotateYZX',
+    typeName: 'float3',
+    fallback: '(0, 0, 0)',
+    doc: 'Rotation in degrees, about Y, then Z, then X.',
+  },
+  {
+    name: 'rotateZXY',
+    typeName: 'float3',
+    fallback: '(0, 0, 0)',
+    doc: 'Rotation in degrees, about Z, then X, then Y.',
+  },
+  {
+    name: 'rotateZYX',
+    typeName: 'float3',
+    fallback: '(0, 0, 0)',
+    doc: 'Rotation in degrees, about Z, then Y, then X.',
+  },
+  { name: 'scale', typeName: 'float3', fallback: '(1, 1, 1)', doc: 'Scale along each axis.' },
+  { name: 'orient', typeName: 'quatf', fallback: '(1, 0, 0, 0)', doc: 'Rotation as a quaternion (real, i, j, k).' },
+  {
+    name: 'transform',
+    typeName: 'matrix4d',
+    fallback: '( (1, 0, 0, 0), (0, 1, 0, 0), (0, 0, 1, 0), (0, 0, 0, 1) )',
+    doc: 'A whole 4x4 matrix.',
+  },
+];
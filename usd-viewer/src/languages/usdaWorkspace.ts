@@ -0,0 +1,21 @@
+import type { IRange } from 'monaco-editor';
+import type { VirtualFile } from '../types/virtualFileSystem';
+
+// The workspace the usda language features read. Monaco providers are
+// registered once per page, so the mounted editor keeps this current.
+export interface UsdaWorkspace {
+  files: Map<string, VirtualFile>;
+  filePath: string | null; // The file open in the editor
+  createFile?: (path: string, content: string) => void;
+  openLocation?: (path: string, range: IRange) => void; // Open another file at a range
+}
+
+let workspace: UsdaWorkspace = { files: new Map(), filePath: null };
+
+export function setUsdaWorkspace(next: UsdaWorkspace) {
+  workspace = next;
+}
+
+export function getUsdaWorkspace(): UsdaWorkspace {
+  return workspace;
+}
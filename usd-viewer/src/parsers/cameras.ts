@@ -0,0 +1,66 @@
+import { interpolateValue, isDefinedPrim, type ParsedPrim } from './usdaParser';
+
+// A Camera prim on the stage
+export interface UsdCamera {
+  path: string;
+  xformChain: ParsedPrim[]; // The camera and its ancestors, root first
+}
+
+// A camera's projection at one frame, in scene units
+export interface CameraProjection {
+  projection: 'perspective' | 'orthographic';
+  verticalFov: number; // Degrees; perspective only
+  width: number;       // View width; orthographic only
+  height: number;      // View height; orthographic only
+  aspect: number;      // Film back width over height
+  near: number;
+  far: number;
+}
+
+// Fallback values from the UsdGeomCamera schema (a 35mm academy film back)
+const CAMERA_DEFAULTS = {
+  focalLength: 50,
+  horizontalAperture: 20.955,
+  verticalAperture: 15.2908,
+  clippingRange: [1, 1000000] as [number, number],
+};
+
+// Apertures and focal length are authored in tenths of a scene unit
+const APERTURE_UNIT = 0.1;
+
+// Every Camera on the stage, skipping prims that are not rendered
+export function collectCameras(
+  stagePrims: ParsedPrim[],
+  parentPath = '',
+  ancestors: ParsedPrim[] = [],
+  cameras: UsdCamera[] = []
+): UsdCamera[] {
+  for (const prim of stagePrims.filter(isDefinedPrim)) {
+    const path = `${parentPath}/${prim.name}`;
+    const chain = [...ancestors, prim];
+    if (prim.type === 'Camera') cameras.push({ path, xformChain: chain });
+    collectCameras(prim.children ?? [], path, chain, cameras);
+  }
+  return cameras;
+}
+
+export function getCameraProjection(camera: UsdCamera, frame: number): CameraProjection {
+  const prim = camera.xformChain[camera.xformChain.length - 1];
+  const focalLength =
+    (prim.focalLengthTimeSamples
+      ? interpolateValue(prim.focalLengthTimeSamples, frame, prim.timeSampleOffsets?.focalLengthTimeSamples)
+      : prim.focalLength) ?? CAMERA_DEFAULTS.focalLength;
+  const horizontalAperture = prim.horizontalAperture ?? CAMERA_DEFAULTS.horizontalAperture;
+  const verticalAperture = prim.verticalAperture ?? CAMERA_DEFAULTS.verticalAperture;
+  const [near, far] = prim.clippingRange ?? CAMERA_DEFAULTS.clippingRange;
+
+  return {
+    projection: prim.projection ?? 'perspective',
+    verticalFov: (2 * Math.atan(verticalAperture / (2 * focalLength)) * 180) / Math.PI,
+    width: horizontalAperture * APERTURE_UNIT,
+    height: verticalAperture * APERTURE_UNIT,
+    aspect: horizontalAperture / verticalAperture,
+    near,
+    far,
+  };
+}
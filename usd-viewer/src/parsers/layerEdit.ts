@@ -0,0 +1,104 @@
+import type { AttributeSpec, PrimSpec, VariantSpec } from './usdaAst';
+
+// Text edits on a layer's source, located through the ranges of its syntax
+// tree so everything around the edited value keeps its formatting
+
+// A text replacement in one layer, by character offset
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// New text of each edited layer, by file path, or why the edit was refused
+export interface LayerEditResult {
+  contents: Map<string, string>;
+  error?: string;
+}
+
+// Seven significant digits, enough for float attributes without noise
+export function formatNumber(value: number): string {
+  const rounded = Number(value.toPrecision(7));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+// A scalar, or a tuple such as (1, 2, 3)
+export function formatNumbers(values: number[]): string {
+  return values.length === 1 ? formatNumber(values[0]) : `(${values.map(formatNumber).join(', ')})`;
+}
+
+// Leading whitespace of the line containing an offset
+export function lineIndent(content: string, offset: number): string {
+  return /^[ \t]*/.exec(content.slice(lineStartOffset(content, offset)))![0];
+}
+
+export function lineStartOffset(content: string, offset: number): number {
+  return content.lastIndexOf('\n', offset - 1) + 1;
+}
+
+// Set a key at a time: replace the sample at that time or insert one in time order
+function keyTimeSample(content: string, spec: AttributeSpec, time: number, text: string): TextEdit {
+  const block = spec.timeSamples!;
+  const entry = `${formatNumber(time)}: ${text}`;
+  const existing = block.entries.find((sample) => sample.time === time);
+  if (existing) {
+    return { start: existing.value.range.start.offset, end: existing.value.range.end.offset, text };
+  }
+
+  const multiline = block.entries.length > 0 && block.entries[0].range.start.line > block.range.start.line;
+  const next = block.entries.find((sample) => sample.time > time);
+  const last = block.entries[block.entries.length - 1];
+  if (next) {
+    const start = next.range.start.offset;
+    const separator = multiline ? `,\n${lineIndent(content, start)}` : ', ';
+    return { start, end: start, text: entry + separator };
+  }
+  if (last) {
+    const end = last.range.end.offset;
+    const separator = multiline ? `,\n${lineIndent(content, end)}` : ', ';
+    return { start: end, end, text: separator + entry };
+  }
+  // An empty block
+  const indent = lineIndent(content, block.range.start.offset);
+  return {
+    start: block.range.start.offset,
+    end: block.range.end.offset,
+    text: `{\n${indent}    ${entry},\n${indent}}`,
+  };
+}
+
+// Write an attribute's value text. With a time (in the layer's own time) the
+// value is keyed into the attribute's time samples; otherwise it replaces the
+// default value.
+export function setAttributeValue(
+  content: string,
+  spec: AttributeSpec,
+  text: string,
+  localTime?: number
+): TextEdit {
+  if (spec.timeSamples && localTime !== undefined) {
+    return keyTimeSample(content, spec, Number(localTime.toPrecision(7)), text);
+  }
+  if (spec.defaultValue) {
+    const { start, end } = spec.defaultValue.range;
+    return { start: start.offset, end: end.offset, text };
+  }
+  // Declared without a value
+  const end = spec.nameRange.end.offset;
+  return { start: end, end, text: ` = ${text}` };
+}
+
+// Where new properties go in a prim spec that has none to insert next to: just
+// inside its opening brace
+export function primBodyStart(content: string, spec: PrimSpec | VariantSpec): number | undefined {
+  const lastMetadata = spec.metadata[spec.metadata.length - 1];
+  const from = Math.max(spec.nameRange.end.offset, lastMetadata?.range.end.offset ?? 0);
+  const brace = content.indexOf('{', from);
+  return brace < 0 || brace >= spec.range.end.offset ? undefined : brace + 1;
+}
+
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), content);
+}
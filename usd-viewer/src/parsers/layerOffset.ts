@@ -0,0 +1,25 @@
+import type { LayerOffset } from '../types/virtualFileSystem';
+
+export const IDENTITY_LAYER_OFFSET: LayerOffset = { offset: 0, scale: 1 };
+
+export function isIdentityLayerOffset(layerOffset: LayerOffset): boolean {
+  return layerOffset.offset === 0 && layerOffset.scale === 1;
+}
+
+// Map a time in the inner layer to the time in the outer layer
+export function applyLayerOffset(layerOffset: LayerOffset, time: number): number {
+  return layerOffset.offset + layerOffset.scale * time;
+}
+
+// Map a time in the outer layer (e.g. stage time) back to the inner layer's local time
+export function toLocalTime(layerOffset: LayerOffset, time: number): number {
+  return layerOffset.scale === 0 ? time - layerOffset.offset : (time - layerOffset.offset) / layerOffset.scale;
+}
+
+// Offset of an inner layer reached through an outer layer offset
+export function composeLayerOffsets(outer: LayerOffset, inner: LayerOffset): LayerOffset {
+  return {
+    offset: outer.offset + outer.scale * inner.offset,
+    scale: outer.scale * inner.scale,
+  };
+}
@@ -0,0 +1,194 @@
+import type { LayerOffset, ParseError, UsdReference } from '../types/virtualFileSystem';
+import {
+  mergePrimLists,
+  parseUsda,
+  retimePrim,
+  type ParsedPrim,
+  type ParsedUsda,
+} from './usdaParser';
+import type { SourceRange, UsdaDiagnostic } from './usdaLexer';
+import type { ParseContext } from './referenceResolver';
+import { IDENTITY_LAYER_OFFSET, composeLayerOffsets } from './layerOffset';
+import { mapListOp } from './listOp';
+import { resolveRelativePath } from '../hooks/useVirtualFileSystem';
+
+// One layer of a layer stack, with its offset relative to the stack's root layer
+export interface LayerStackEntry {
+  path: string;
+  layer: ParsedUsda;
+  layerOffset: LayerOffset;
+}
+
+// The position fields of an error at a range of its file; none without a range
+export function errorLocation(
+  range: SourceRange | undefined
+): Pick<ParseError, 'line' | 'column' | 'endLine' | 'endColumn'> {
+  if (!range) return {};
+  return {
+    line: range.start.line,
+    column: range.start.column,
+    endLine: range.end.line,
+    endColumn: range.end.column,
+  };
+}
+
+// Record an error unless the same one was already reported: a layer or arc
+// brought in at several places in the stage raises its errors each time
+export function reportError(errors: ParseError[], error: ParseError) {
+  const reported = errors.some(
+    (other) =>
+      other.type === error.type &&
+      other.message === error.message &&
+      other.filePath === error.filePath &&
+      other.line === error.line &&
+      other.column === error.column
+  );
+  if (!reported) errors.push(error);
+}
+
+// Convert parser diagnostics into parse errors that point at the offending range
+function reportDiagnostics(diagnostics: UsdaDiagnostic[], filePath: string, errors: ParseError[]) {
+  for (const diagnostic of diagnostics) {
+    errors.push({
+      type: 'parse_error',
+      message: diagnostic.message,
+      filePath,
+      ...errorLocation(diagnostic.range),
+    });
+  }
+}
+
+// Record the authoring layer on every reference, payload and asset-valued
+// shader input (texture files) so that their asset paths still resolve
+// correctly once layers are merged, and on the specs that the inspector and
+// transform edits are written back into
+function anchorToLayer(prim: ParsedPrim, layerPath: string): ParsedPrim {
+  const anchor = (arc: UsdReference) => ({ ...arc, layerPath });
+  return {
+    ...prim,
+    references: mapListOp(prim.references, anchor),
+    payloads: mapListOp(prim.payloads, anchor),
+    xformOps:
+      prim.xformOps &&
+      Object.fromEntries(
+        Object.entries(prim.xformOps).map(([name, op]) => [
+          name,
+          op.source ? { ...op, source: { ...op.source, layerPath } } : op,
+        ])
+      ),
+    xformOpOrderSource: prim.xformOpOrderSource && { ...prim.xformOpOrderSource, layerPath },
+    primSpecs: prim.primSpecs?.map((source) => ({ ...source, layerPath })),
+    properties:
+      prim.properties &&
+      Object.fromEntries(
+        Object.entries(prim.properties).map(([name, opinion]) => [name, { ...opinion, layerPath }])
+      ),
+    primMetadata:
+      prim.primMetadata &&
+      Object.fromEntries(
+        Object.entries(prim.primMetadata).map(([key, opinion]) => [key, { ...opinion, layerPath }])
+      ),
+    inputs:
+      prim.inputs &&
+      Object.fromEntries(
+        Object.entries(prim.inputs).map(([name, input]) => [
+          name,
+          input.assetPath !== undefined ? { ...input, layerPath } : input,
+        ])
+      ),
+    children: prim.children?.map((child) => anchorToLayer(child, layerPath)),
+    variantSets: prim.variantSets?.map((variantSet) => ({
+      ...variantSet,
+      variants: new Map(
+        Array.from(variantSet.variants, ([name, opinions]) => [name, anchorToLayer(opinions, layerPath)])
+      ),
+    })),
+  };
+}
+
+// Parse a layer once per resolve; its syntax errors are reported the first time it is loaded
+export function loadLayer(filePath: string, content: string, context: ParseContext): ParsedUsda {
+  let parsed = context.layerCache.get(filePath);
+  if (!parsed) {
+    parsed = parseUsda(content);
+    parsed.prims = parsed.prims.map((prim) => anchorToLayer(prim, filePath));
+    context.layerCache.set(filePath, parsed);
+    reportDiagnostics(parsed.diagnostics, filePath, context.errors);
+  }
+  return parsed;
+}
+
+// Collect a root layer and its sublayers, recursively, in strength order
+// (strongest first): each layer is followed by its own sublayers before the
+// next sibling sublayer.
+export function buildLayerStack(
+  rootPath: string,
+  rootLayer: ParsedUsda,
+  context: ParseContext
+): LayerStackEntry[] {
+  const entries: LayerStackEntry[] = [];
+
+  function addLayer(path: string, layer: ParsedUsda, layerOffset: LayerOffset, ancestors: string[]) {
+    entries.push({ path, layer, layerOffset });
+
+    for (const subLayer of layer.metadata.subLayers ?? []) {
+      const absolutePath = resolveRelativePath(path, subLayer.assetPath);
+
+      // Cycle detection in the sublayer graph
+      if (ancestors.includes(absolutePath)) {
+        reportError(context.errors, {
+          type: 'circular_reference',
+          message: `Circular sublayer detected: ${path} -> ${absolutePath}`,
+          filePath: path,
+          ...errorLocation(subLayer.range),
+        });
+        continue;
+      }
+
+      // File existence check
+      const subLayerFile = context.files.get(absolutePath);
+      if (!subLayerFile) {
+        reportError(context.errors, {
+          type: 'missing_file',
+          message: `Sublayer not found: ${subLayer.assetPath} (resolved to ${absolutePath})`,
+          filePath: path,
+          ...errorLocation(subLayer.range),
+        });
+        continue;
+      }
+
+      // Skip inactive files
+      if (!subLayerFile.active) {
+        continue;
+      }
+
+      addLayer(
+        absolutePath,
+        loadLayer(absolutePath, subLayerFile.content, context),
+        composeLayerOffsets(layerOffset, subLayer.layerOffset ?? IDENTITY_LAYER_OFFSET),
+        [...ancestors, absolutePath]
+      );
+    }
+  }
+
+  addLayer(rootPath, rootLayer, IDENTITY_LAYER_OFFSET, [...context.visitedPaths, rootPath]);
+  return entries;
+}
+
+// Merge the prims of every layer in the stack into one set of uncomposed
+// opinions, stronger layers winning, with samples re-timed into root time
+export function composeLayerStack(
+  rootPath: string,
+  rootLayer: ParsedUsda,
+  context: ParseContext
+): ParsedPrim[] {
+  let prims: ParsedPrim[] | undefined;
+
+  // Weakest layer first so that each stronger layer merges on top
+  for (const entry of buildLayerStack(rootPath, rootLayer, context).reverse()) {
+    const layerPrims = entry.layer.prims.map((prim) => retimePrim(prim, entry.layerOffset));
+    prims = mergePrimLists(layerPrims, prims);
+  }
+
+  return prims ?? [];
+}
@@ -0,0 +1,146 @@
+import { isDefinedPrim, type ParsedPrim, type ShadeAttribute } from './usdaParser';
+import { resolveRelativePath } from '../hooks/useVirtualFileSystem';
+import type { SourceRange } from './usdaLexer';
+
+export type LightType =
+  | 'DistantLight'
+  | 'DomeLight'
+  | 'RectLight'
+  | 'SphereLight'
+  | 'DiskLight'
+  | 'CylinderLight';
+
+const LIGHT_TYPES: ReadonlySet<string> = new Set<LightType>([
+  'DistantLight',
+  'DomeLight',
+  'RectLight',
+  'SphereLight',
+  'DiskLight',
+  'CylinderLight',
+]);
+
+export function isLightPrim(prim: ParsedPrim): boolean {
+  return LIGHT_TYPES.has(prim.type);
+}
+
+// A UsdLux light with its inputs resolved to fallbacks
+export interface UsdLight {
+  path: string;
+  type: LightType;
+  xformChain: ParsedPrim[]; // The light and its ancestors, root first
+  color: [number, number, number]; // inputs:color tinted by colorTemperature when enabled
+  radiance: number; // inputs:intensity scaled by 2^exposure
+  normalize: boolean; // Radiance is divided by the light's area
+  angle: number; // DistantLight: angular diameter in degrees
+  width: number; // RectLight
+  height: number; // RectLight
+  radius: number; // SphereLight, DiskLight, CylinderLight
+  length: number; // CylinderLight, along X
+  cone?: { angle: number; softness: number }; // shaping:cone:*, when narrower than a hemisphere
+  textureFile?: { filePath: string; assetPath: string; layerPath?: string; range?: SourceRange }; // DomeLight texture:file
+}
+
+// Fallback values from the UsdLux schemas
+const LIGHT_DEFAULTS = {
+  intensity: 1,
+  exposure: 0,
+  colorTemperature: 6500,
+  angle: 0.53,
+  width: 1,
+  height: 1,
+  radius: 0.5,
+  length: 1,
+  coneAngle: 90,
+  coneSoftness: 0,
+};
+
+// DistantLight's intensity is the radiance of the sun's disk
+const DISTANT_LIGHT_INTENSITY = 50000;
+
+function toBoolean(input: ShadeAttribute | undefined): boolean {
+  return input?.token === 'true' || input?.value?.[0] === 1;
+}
+
+function srgbToLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+// Approximate color of a black body at a temperature in Kelvin (Tanner
+// Helland's fit), in linear RGB normalized to a luminance of 1 as UsdLux does
+export function blackbodyColor(kelvin: number): [number, number, number] {
+  const t = Math.min(Math.max(kelvin, 1000), 40000) / 100;
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 255) / 255;
+  const red = t <= 66 ? 1 : clamp(329.698727446 * Math.pow(t - 60, -0.1332047592));
+  const green =
+    t <= 66
+      ? clamp(99.4708025861 * Math.log(t) - 161.1195681661)
+      : clamp(288.1221695283 * Math.pow(t - 60, -0.0755148492));
+  const blue = t >= 66 ? 1 : t <= 19 ? 0 : clamp(138.5177312231 * Math.log(t - 10) - 305.0447927307);
+
+  const rgb = [red, green, blue].map(srgbToLinear) as [number, number, number];
+  const luminance = 0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2];
+  return rgb.map((value) => value / luminance) as [number, number, number];
+}
+
+function resolveLight(prim: ParsedPrim, path: string, xformChain: ParsedPrim[]): UsdLight {
+  const type = prim.type as LightType;
+  const inputs = prim.inputs ?? {};
+  const scalar = (name: string, fallback: number) => inputs[name]?.value?.[0] ?? fallback;
+
+  const intensity = scalar(
+    'intensity',
+    type === 'DistantLight' ? DISTANT_LIGHT_INTENSITY : LIGHT_DEFAULTS.intensity
+  );
+  const authoredColor = inputs.color?.value;
+  let color: [number, number, number] =
+    authoredColor?.length === 3 ? [authoredColor[0], authoredColor[1], authoredColor[2]] : [1, 1, 1];
+  if (toBoolean(inputs.enableColorTemperature)) {
+    const tint = blackbodyColor(scalar('colorTemperature', LIGHT_DEFAULTS.colorTemperature));
+    color = [color[0] * tint[0], color[1] * tint[1], color[2] * tint[2]];
+  }
+
+  const coneAngle = scalar('shaping:cone:angle', LIGHT_DEFAULTS.coneAngle);
+  const file = inputs['texture:file'];
+
+  return {
+    path,
+    type,
+    xformChain,
+    color,
+    radiance: intensity * Math.pow(2, scalar('exposure', LIGHT_DEFAULTS.exposure)),
+    normalize: toBoolean(inputs.normalize),
+    angle: scalar('angle', LIGHT_DEFAULTS.angle),
+    width: scalar('width', LIGHT_DEFAULTS.width),
+    height: scalar('height', LIGHT_DEFAULTS.height),
+    radius: scalar('radius', LIGHT_DEFAULTS.radius),
+    length: scalar('length', LIGHT_DEFAULTS.length),
+    cone:
+      coneAngle < LIGHT_DEFAULTS.coneAngle
+        ? { angle: coneAngle, softness: scalar('shaping:cone:softness', LIGHT_DEFAULTS.coneSoftness) }
+        : undefined,
+    textureFile: file?.assetPath
+      ? {
+          filePath: resolveRelativePath(file.layerPath ?? '/', file.assetPath),
+          assetPath: file.assetPath,
+          layerPath: file.layerPath,
+          range: file.assetRange,
+        }
+      : undefined,
+  };
+}
+
+// Every UsdLux light on the stage, skipping prims that are not rendered
+export function collectLights(
+  stagePrims: ParsedPrim[],
+  parentPath = '',
+  ancestors: ParsedPrim[] = [],
+  lights: UsdLight[] = []
+): UsdLight[] {
+  for (const prim of stagePrims.filter(isDefinedPrim)) {
+    const path = `${parentPath}/${prim.name}`;
+    const chain = [...ancestors, prim];
+    if (isLightPrim(prim)) lights.push(resolveLight(prim, path, chain));
+    collectLights(prim.children ?? [], path, chain, lights);
+  }
+  return lights;
+}
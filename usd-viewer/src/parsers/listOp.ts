@@ -0,0 +1,80 @@
+// List-edited metadata such as references, payloads, inherits and specializes.
+// An explicit list replaces weaker opinions; the other operations edit them.
+export interface ListOp<T> {
+  explicitItems?: T[];  // references = [...]
+  prependedItems?: T[]; // prepend references = [...]
+  appendedItems?: T[];  // append references = [...] (and the legacy add)
+  deletedItems?: T[];   // delete references = [...]
+  orderedItems?: T[];   // reorder references = [...]
+}
+
+// Identifies list items so that edits in one layer can match items from another
+export type ListOpKey<T> = (item: T) => string;
+
+function without<T>(items: T[] | undefined, keys: Set<string>, key: ListOpKey<T>): T[] {
+  return (items ?? []).filter((item) => !keys.has(key(item)));
+}
+
+function keysOf<T>(key: ListOpKey<T>, ...lists: (T[] | undefined)[]): Set<string> {
+  return new Set(lists.flatMap((items) => (items ?? []).map(key)));
+}
+
+// Apply the operations to a weaker list and return the resulting items
+export function applyListOp<T>(
+  listOp: ListOp<T> | undefined,
+  key: ListOpKey<T>,
+  weaker: T[] = []
+): T[] {
+  if (!listOp) return weaker;
+  if (listOp.explicitItems) return listOp.explicitItems;
+
+  const prepended = listOp.prependedItems ?? [];
+  const appended = listOp.appendedItems ?? [];
+  const removed = keysOf(key, listOp.deletedItems, prepended, appended);
+  let items = [...prepended, ...without(weaker, removed, key), ...appended];
+
+  // Reordered items move to the front in the given order; the rest keep their order
+  if (listOp.orderedItems?.length) {
+    const order = listOp.orderedItems.map(key);
+    const ordered = order
+      .map((itemKey) => items.find((item) => key(item) === itemKey))
+      .filter((item): item is T => item !== undefined);
+    items = [...ordered, ...without(items, new Set(order), key)];
+  }
+
+  return items;
+}
+
+// Combine the list-ops of two layers so that applying the result equals
+// applying the weaker one and then the stronger one
+export function composeListOps<T>(
+  stronger: ListOp<T> | undefined,
+  weaker: ListOp<T> | undefined,
+  key: ListOpKey<T>
+): ListOp<T> | undefined {
+  if (!stronger) return weaker;
+  if (!weaker || stronger.explicitItems) return stronger;
+  if (weaker.explicitItems) {
+    return { explicitItems: applyListOp(stronger, key, weaker.explicitItems) };
+  }
+
+  const edited = keysOf(key, stronger.prependedItems, stronger.appendedItems, stronger.deletedItems);
+  return {
+    prependedItems: [...(stronger.prependedItems ?? []), ...without(weaker.prependedItems, edited, key)],
+    appendedItems: [...without(weaker.appendedItems, edited, key), ...(stronger.appendedItems ?? [])],
+    deletedItems: [...(stronger.deletedItems ?? []), ...without(weaker.deletedItems, edited, key)],
+    orderedItems: stronger.orderedItems ?? weaker.orderedItems,
+  };
+}
+
+// Transform every item of every operation
+export function mapListOp<T, U>(listOp: ListOp<T> | undefined, map: (item: T) => U): ListOp<U> | undefined {
+  if (!listOp) return undefined;
+  return {
+    explicitItems: listOp.explicitItems?.map(map),
+    prependedItems: listOp.prependedItems?.map(map),
+    appendedItems: listOp.appendedItems?.map(map),
+    deletedItems: listOp.deletedItems?.map(map),
+    orderedItems: listOp.orderedItems?.map(map),
+  };
+}
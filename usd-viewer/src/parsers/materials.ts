@@ -0,0 +1,211 @@
+import type { ParsedPrim, ShadeAttribute } from './usdaParser';
+import { resolveRelativePath } from '../hooks/useVirtualFileSystem';
+import type { SourceRange } from './usdaLexer';
+
+export type TextureWrap = 'repeat' | 'mirror' | 'clamp' | 'black' | 'useMetadata';
+
+// A UsdUVTexture read through one of its outputs (rgb, r, g, b or a)
+export interface SurfaceTexture {
+  filePath: string;   // inputs:file resolved against its layer
+  assetPath: string;  // inputs:file as authored
+  layerPath?: string; // Layer that authored inputs:file
+  range?: SourceRange; // inputs:file's value in layerPath
+  channel: 'rgb' | 'r' | 'g' | 'b' | 'a';
+  wrapS: TextureWrap;
+  wrapT: TextureWrap;
+  scale: [number, number, number, number];
+  bias: [number, number, number, number];
+  sourceColorSpace: 'raw' | 'sRGB' | 'auto';
+  primvarName: string; // varname of the UsdPrimvarReader_float2 feeding inputs:st
+}
+
+// Inputs that can be driven by a texture
+export type TexturedInput =
+  | 'diffuseColor'
+  | 'emissiveColor'
+  | 'metallic'
+  | 'roughness'
+  | 'opacity'
+  | 'normal'
+  | 'clearcoat'
+  | 'clearcoatRoughness';
+
+// UsdPreviewSurface inputs the viewer maps onto MeshPhysicalMaterial
+export interface PreviewSurface {
+  diffuseColor: [number, number, number];
+  emissiveColor: [number, number, number];
+  metallic: number;
+  roughness: number;
+  opacity: number;
+  ior: number;
+  clearcoat: number;
+  clearcoatRoughness: number;
+  textures: Partial<Record<TexturedInput, SurfaceTexture>>;
+}
+
+// Fallback values from the UsdPreviewSurface specification
+const PREVIEW_SURFACE_DEFAULTS: PreviewSurface = {
+  diffuseColor: [0.18, 0.18, 0.18],
+  emissiveColor: [0, 0, 0],
+  metallic: 0,
+  roughness: 0.5,
+  opacity: 1,
+  ior: 1.5,
+  clearcoat: 0,
+  clearcoatRoughness: 0.01,
+  textures: {},
+};
+
+const TEXTURED_INPUTS: TexturedInput[] = [
+  'diffuseColor',
+  'emissiveColor',
+  'metallic',
+  'roughness',
+  'opacity',
+  'normal',
+  'clearcoat',
+  'clearcoatRoughness',
+];
+
+const TEXTURE_CHANNELS = ['rgb', 'r', 'g', 'b', 'a'] as const;
+const TEXTURE_WRAPS = ['repeat', 'mirror', 'clamp', 'black', 'useMetadata'] as const;
+
+// Connections longer than this are treated as cycles
+const MAX_CONNECTION_DEPTH = 16;
+
+function indexPrims(prims: ParsedPrim[], parentPath = '', index = new Map<string, ParsedPrim>()) {
+  for (const prim of prims) {
+    const path = `${parentPath}/${prim.name}`;
+    index.set(path, prim);
+    indexPrims(prim.children ?? [], path, index);
+  }
+  return index;
+}
+
+// "/World/Looks/Mat/Shader.outputs:surface" -> prim path and property name
+function splitPropertyPath(path: string): { primPath: string; propertyName: string } {
+  const dot = path.lastIndexOf('.');
+  return dot < 0
+    ? { primPath: path, propertyName: '' }
+    : { primPath: path.slice(0, dot), propertyName: path.slice(dot + 1) };
+}
+
+interface ResolvedInput {
+  input?: ShadeAttribute; // The attribute holding the value (also the fallback of a connected output)
+  source?: { shader: ParsedPrim; outputName: string }; // Shader output the input is connected to
+}
+
+// Follow an input's connection through interface inputs (on the Material or
+// a NodeGraph) to the attribute that holds its value or the shader output
+// that drives it
+function resolveInput(
+  prim: ParsedPrim,
+  name: string,
+  prims: Map<string, ParsedPrim>,
+  depth = 0
+): ResolvedInput {
+  const input = prim.inputs?.[name];
+  if (!input?.connection || depth >= MAX_CONNECTION_DEPTH) return { input };
+
+  const { primPath, propertyName } = splitPropertyPath(input.connection);
+  const source = prims.get(primPath);
+  if (source && propertyName.startsWith('inputs:')) {
+    return resolveInput(source, propertyName.slice('inputs:'.length), prims, depth + 1);
+  }
+  if (source && propertyName.startsWith('outputs:')) {
+    return { input, source: { shader: source, outputName: propertyName.slice('outputs:'.length) } };
+  }
+  return { input };
+}
+
+function toVector4(value: number[] | undefined, fallback: number): [number, number, number, number] {
+  return [0, 1, 2, 3].map((index) => value?.[index] ?? fallback) as [number, number, number, number];
+}
+
+function toOption<T extends string>(value: string | undefined, options: readonly T[], fallback: T): T {
+  return options.find((option) => option === value) ?? fallback;
+}
+
+// A UsdUVTexture output, with its st coming from a UsdPrimvarReader_float2
+function resolveTexture(
+  shader: ParsedPrim,
+  outputName: string,
+  prims: Map<string, ParsedPrim>
+): SurfaceTexture | undefined {
+  if (shader.shaderId !== 'UsdUVTexture') return undefined;
+  const file = resolveInput(shader, 'file', prims).input;
+  if (!file?.assetPath) return undefined;
+
+  const token = (name: string) => resolveInput(shader, name, prims).input?.token;
+  const st = resolveInput(shader, 'st', prims).source?.shader;
+  const primvarName =
+    st?.shaderId === 'UsdPrimvarReader_float2' ? resolveInput(st, 'varname', prims).input?.token : undefined;
+
+  return {
+    filePath: resolveRelativePath(file.layerPath ?? '/', file.assetPath),
+    assetPath: file.assetPath,
+    layerPath: file.layerPath,
+    range: file.assetRange,
+    channel: toOption(outputName, TEXTURE_CHANNELS, 'rgb'),
+    wrapS: toOption(token('wrapS'), TEXTURE_WRAPS, 'useMetadata'),
+    wrapT: toOption(token('wrapT'), TEXTURE_WRAPS, 'useMetadata'),
+    scale: toVector4(resolveInput(shader, 'scale', prims).input?.value, 1),
+    bias: toVector4(resolveInput(shader, 'bias', prims).input?.value, 0),
+    sourceColorSpace: toOption(token('sourceColorSpace'), ['raw', 'sRGB', 'auto'] as const, 'auto'),
+    primvarName: primvarName ?? 'st',
+  };
+}
+
+function resolvePreviewSurface(shader: ParsedPrim, prims: Map<string, ParsedPrim>): PreviewSurface {
+  const color = (name: 'diffuseColor' | 'emissiveColor') => {
+    const value = resolveInput(shader, name, prims).input?.value;
+    return value?.length === 3 ? (value as [number, number, number]) : PREVIEW_SURFACE_DEFAULTS[name];
+  };
+  const scalar = (name: Exclude<keyof PreviewSurface, 'diffuseColor' | 'emissiveColor' | 'textures'>) =>
+    resolveInput(shader, name, prims).input?.value?.[0] ?? PREVIEW_SURFACE_DEFAULTS[name];
+
+  const textures: PreviewSurface['textures'] = {};
+  for (const name of TEXTURED_INPUTS) {
+    const { source } = resolveInput(shader, name, prims);
+    const texture = source && resolveTexture(source.shader, source.outputName, prims);
+    if (texture) textures[name] = texture;
+  }
+
+  return {
+    diffuseColor: color('diffuseColor'),
+    emissiveColor: color('emissiveColor'),
+    metallic: scalar('metallic'),
+    roughness: scalar('roughness'),
+    opacity: scalar('opacity'),
+    ior: scalar('ior'),
+    clearcoat: scalar('clearcoat'),
+    clearcoatRoughness: scalar('clearcoatRoughness'),
+    textures,
+  };
+}
+
+// The texCoord primvar a mesh bound to the material builds its uv attribute
+// from. three.js reads every map through that one uv set, so the first
+// textured input decides.
+export function surfaceTexCoordPrimvar(surface: PreviewSurface | undefined): string {
+  const texture = TEXTURED_INPUTS.map((input) => surface?.textures[input]).find((found) => found !== undefined);
+  return texture?.primvarName ?? 'st';
+}
+
+// The UsdPreviewSurface of every Material on the stage, by material path.
+// Materials whose surface output is not a UsdPreviewSurface are left out.
+export function collectMaterials(stagePrims: ParsedPrim[]): Map<string, PreviewSurface> {
+  const prims = indexPrims(stagePrims);
+  const materials = new Map<string, PreviewSurface>();
+
+  for (const [path, prim] of prims) {
+    const surface = prim.typeName === 'Material' ? prim.outputs?.surface?.connection : undefined;
+    if (!surface) continue;
+    const shader = prims.get(splitPropertyPath(surface).primPath);
+    if (shader?.shaderId === 'UsdPreviewSurface') {
+      materials.set(path, resolvePreviewSurface(shader, prims));
+    }
+  }
+
+  return materials;
+}
@@ -0,0 +1,40 @@
+import type { OpinionSource, ParsedPrim } from './usdaParser';
+import type { PrimSpec, VariantSpec } from './usdaAst';
+
+type PrimSource = OpinionSource<PrimSpec | VariantSpec>;
+
+// Where a prim is defined: its strongest def, else its strongest spec (an over
+// or class with nothing defining it)
+export function getDefinitionSource(prim: ParsedPrim): PrimSource | undefined {
+  const specs = prim.primSpecs ?? [];
+  return specs.find((source) => source.spec.kind === 'prim' && source.spec.specifier === 'def') ?? specs[0];
+}
+
+export interface PrimAtOffset {
+  path: string;
+  source: PrimSource;
+}
+
+// The composed prim whose spec most tightly encloses an offset in a layer's
+// text. A spec shared by several prims (a referenced or inherited one) goes to
+// the prim it is the strongest spec of, if any, else to the first in the tree.
+export function findPrimAtOffset(prims: ParsedPrim[], filePath: string, offset: number): PrimAtOffset | undefined {
+  let best: (PrimAtOffset & { size: number; strongest: boolean }) | undefined;
+
+  const visit = (prim: ParsedPrim, parentPath: string) => {
+    const path = `${parentPath}/${prim.name}`;
+    prim.primSpecs?.forEach((source, index) => {
+      const { start, end } = source.spec.range;
+      if (source.layerPath !== filePath || offset < start.offset || offset > end.offset) return;
+      const size = end.offset - start.offset;
+      const strongest = index === 0;
+      if (!best || size < best.size || (size === best.size && strongest && !best.strongest)) {
+        best = { path, source, size, strongest };
+      }
+    });
+    prim.children?.forEach((child) => visit(child, path));
+  };
+  prims.forEach((prim) => visit(prim, ''));
+
+  return best && { path: best.path, source: best.source };
+}
@@ -0,0 +1,189 @@
+import { IDENTITY_LAYER_OFFSET, toLocalTime } from './layerOffset';
+import { applyTextEdits, formatNumbers, setAttributeValue, type LayerEditResult } from './layerEdit';
+import type { OpinionSource, ParsedPrim, PropertyOpinion } from './usdaParser';
+import type { AttributeSpec, ListOpKind, MetadataEntry, ValueNode } from './usdaAst';
+import type { VirtualFile } from '../types/virtualFileSystem';
+
+// How an attribute's value can be edited in the inspector
+export type ValueEditor = 'scalar' | 'vector' | 'color';
+
+// One composed property of a prim as the inspector shows it
+export interface InspectedProperty {
+  name: string;
+  kind: 'attribute' | 'relationship';
+  typeName: string;   // e.g. "color3f[]"; "rel" for relationships
+  uniform: boolean;
+  custom: boolean;
+  timeSampled: boolean;
+  value: string;      // At the inspected frame, as USDA text
+  numbers?: number[]; // The value at the frame, for editable attributes
+  editor?: ValueEditor;
+  connection?: string;
+  opinion: PropertyOpinion;
+}
+
+// One composed metadata field of a prim
+export interface InspectedMetadata {
+  key: string;
+  listOp?: ListOpKind;
+  value: string;
+  opinion: OpinionSource<MetadataEntry>;
+}
+
+const SCALAR_TYPES = new Set(['double', 'float', 'half', 'int', 'uint', 'int64', 'uint64', 'uchar', 'timecode']);
+const INTEGER_TYPES = new Set(['int', 'uint', 'int64', 'uint64', 'uchar']);
+
+// Arrays get the editor of their element type, but only hold a value it can
+// edit when they have a single element, as constant primvars such as
+// color3f[] primvars:displayColor do
+function valueEditor(spec: AttributeSpec): ValueEditor | undefined {
+  if (SCALAR_TYPES.has(spec.typeName)) return 'scalar';
+  if (/^color[34][dfh]$/.test(spec.typeName)) return 'color';
+  if (/^((double|float|half|int)[234]|(point|vector|normal)3[dfh]|texCoord[23][dfh]|quat[dfh])$/.test(spec.typeName)) {
+    return 'vector';
+  }
+  return undefined;
+}
+
+// Long arrays (mesh points, indices) are shown by their first elements
+const ARRAY_PREVIEW_LENGTH = 8;
+
+// USDA text for a value
+export function formatValueNode(node: ValueNode): string {
+  switch (node.kind) {
+    case 'number':
+      return String(node.value);
+    case 'string':
+      return JSON.stringify(node.value);
+    case 'identifier':
+      return node.value;
+    case 'asset':
+      return `@${node.path}@${node.primPath ? `<${node.primPath}>` : ''}`;
+    case 'path':
+      return `<${node.path}>`;
+    case 'tuple':
+      return `(${node.elements.map(formatValueNode).join(', ')})`;
+    case 'array': {
+      const shown = node.elements.slice(0, ARRAY_PREVIEW_LENGTH).map(formatValueNode);
+      if (node.elements.length > ARRAY_PREVIEW_LENGTH) shown.push(`… ${node.elements.length} items`);
+      return `[${shown.join(', ')}]`;
+    }
+    case 'dictionary': {
+      const entries = node.entries.map((entry) => `${entry.typeName} ${entry.key} = ${formatValueNode(entry.value)}`);
+      return `{ ${entries.join(' ')} }`;
+    }
+  }
+}
+
+// A scalar or a tuple of numbers, flattened; an array only when it holds one
+function toNumbers(node: ValueNode | undefined): number[] | undefined {
+  if (node?.kind === 'array') return node.elements.length === 1 ? toNumbers(node.elements[0]) : undefined;
+  if (node?.kind === 'number') return [node.value];
+  if (node?.kind !== 'tuple') return undefined;
+  const values = node.elements.map((element) => (element.kind === 'number' ? element.value : NaN));
+  return values.some(Number.isNaN) ? undefined : values;
+}
+
+// The attribute's value at a stage frame: time samples win over the default
+// value, and numbers blend linearly between samples
+function sampleAttribute(
+  spec: AttributeSpec,
+  opinion: PropertyOpinion,
+  stageFrame: number,
+  blend: boolean
+): { node?: ValueNode; numbers?: number[] } {
+  const samples = [...(spec.timeSamples?.entries ?? [])].sort((a, b) => a.time - b.time);
+  if (!samples.length) return { node: spec.defaultValue, numbers: toNumbers(spec.defaultValue) };
+
+  const time = toLocalTime(opinion.layerOffset ?? IDENTITY_LAYER_OFFSET, stageFrame);
+  const nextIndex = samples.findIndex((sample) => sample.time > time);
+  if (nextIndex <= 0) {
+    const held = nextIndex === 0 ? samples[0] : samples[samples.length - 1];
+    return { node: held.value, numbers: toNumbers(held.value) };
+  }
+
+  const [before, after] = [samples[nextIndex - 1], samples[nextIndex]];
+  const [v0, v1] = [toNumbers(before.value), toNumbers(after.value)];
+  if (!blend || !v0 || !v1 || v0.length !== v1.length) return { node: before.value, numbers: v0 };
+  const t = (time - before.time) / (after.time - before.time);
+  return { node: before.value, numbers: v0.map((value, index) => value + (v1[index] - value) * t) };
+}
+
+// USDA text for an edited value: one-element arrays keep their brackets
+function formatEditedValue(spec: AttributeSpec, values: number[]): string {
+  return spec.isArray ? `[${formatNumbers(values)}]` : formatNumbers(values);
+}
+
+function inspectProperty(name: string, opinion: PropertyOpinion, stageFrame: number): InspectedProperty {
+  const { spec } = opinion;
+  if (spec.kind === 'relationship') {
+    return {
+      name,
+      kind: 'relationship',
+      typeName: 'rel',
+      uniform: false,
+      custom: spec.custom,
+      timeSampled: false,
+      value: spec.targets ? formatValueNode(spec.targets) : '',
+      opinion,
+    };
+  }
+
+  const editor = valueEditor(spec);
+  const { node, numbers } = sampleAttribute(spec, opinion, stageFrame, editor !== undefined);
+  const editable = editor !== undefined && numbers !== undefined;
+  return {
+    name,
+    kind: 'attribute',
+    typeName: spec.isArray ? `${spec.typeName}[]` : spec.typeName,
+    uniform: spec.variability === 'uniform',
+    custom: spec.custom,
+    timeSampled: (spec.timeSamples?.entries.length ?? 0) > 0,
+    value: editable ? formatEditedValue(spec, numbers) : node ? formatValueNode(node) : '',
+    numbers: editable ? numbers : undefined,
+    editor: editable ? editor : undefined,
+    connection: spec.connections && formatValueNode(spec.connections),
+    opinion,
+  };
+}
+
+// The prim's composed properties, sorted by name, with values at a stage frame
+export function inspectProperties(prim: ParsedPrim, stageFrame: number): InspectedProperty[] {
+  return Object.entries(prim.properties ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, opinion]) => inspectProperty(name, opinion, stageFrame));
+}
+
+// The prim's composed metadata, in authored order of the strongest opinions
+export function inspectMetadata(prim: ParsedPrim): InspectedMetadata[] {
+  return Object.entries(prim.primMetadata ?? {}).map(([key, opinion]) => ({
+    key,
+    listOp: opinion.spec.listOp,
+    value: formatValueNode(opinion.spec.value),
+    opinion,
+  }));
+}
+
+// Write a number, vector or color into the layer holding the property's
+// strongest opinion. Time-sampled attributes get a key at the frame.
+export function editPropertyValue(
+  property: InspectedProperty,
+  values: number[],
+  stageFrame: number,
+  files: Map<string, VirtualFile>
+): LayerEditResult {
+  const { spec, layerPath, layerOffset } = property.opinion;
+  const content = layerPath !== undefined ? files.get(layerPath)?.content : undefined;
+  if (spec.kind !== 'attribute' || !property.editor) {
+    return { contents: new Map(), error: `${property.name} cannot be edited here` };
+  }
+  if (layerPath === undefined || content === undefined) {
+    return { contents: new Map(), error: `The layer authoring ${property.name} is not in the workspace` };
+  }
+
+  const rounded = INTEGER_TYPES.has(spec.typeName) || /^int[234]$/.test(spec.typeName);
+  const text = formatEditedValue(spec, rounded ? values.map(Math.round) : values);
+  const localTime = property.timeSampled ? toLocalTime(layerOffset ?? IDENTITY_LAYER_OFFSET, stageFrame) : undefined;
+  const edit = setAttributeValue(content, spec, text, localTime);
+  return { contents: new Map([[layerPath, applyTextEdits(content, [edit])]]) };
+}
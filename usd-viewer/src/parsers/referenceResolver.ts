@@ -1,16 +1,44 @@
-import type { VirtualFile, ParseError } from '../types/virtualFileSystem';
-import { parseUsda, type ParsedPrim } from './usdaParser';
+import type { VirtualFile, ParseError, UsdReference } from '../types/virtualFileSystem';
+import {
+  isDefinedPrim,
+  mergePrims,
+  pathKey,
+  referenceKey,
+  remapPrimPaths,
+  retimePrim,
+  type ParsedPrim,
+  type ParsedVariantSet,
+  type ParsedUsda,
+  type LayerMetadata,
+} from './usdaParser';
+import { composeLayerStack, errorLocation, loadLayer, reportError } from './layerStack';
+import type { SourceRange } from './usdaLexer';
+import { applyListOp, type ListOp, type ListOpKey } from './listOp';
 import { resolveRelativePath } from '../hooks/useVirtualFileSystem';
 
+// Variant selections made in the UI, by stage prim path and then variant set name.
+// They take precedence over the selections authored in the layers.
+export type VariantSelections = Record<string, Record<string, string>>;
+
 export interface ParseContext {
-  currentFilePath: string;
+  currentFilePath: string; // Root layer of the layer stack being composed
   files: Map<string, VirtualFile>;
   visitedPaths: Set<string>;
   errors: ParseError[];
+  layerCache: Map<string, ParsedUsda>; // Parsed layers by absolute path, shared across the whole resolve
+  stackCache: Map<string, ParsedPrim[]>; // Composed layer stacks by visitedPaths, shared likewise
+  variantSelections: VariantSelections;
+  stackPrims: ParsedPrim[]; // Uncomposed prims of the current layer stack, targets of inherits and specializes
+  arcPath: string[];        // Inherits and specializes being composed, for cycle detection
 }
 
+const EXTERNAL_ARC_MESSAGES = {
+  reference: { circular: 'Circular reference detected', missing: 'Referenced file not found' },
+  payload: { circular: 'Circular payload detected', missing: 'Payload file not found' },
+};
+
 // Find a prim by its path (e.g., "/World/Cube")
-function findPrimByPath(prims: ParsedPrim[], path: string): ParsedPrim | null {
+export function findPrimByPath(prims: ParsedPrim[], path: string): ParsedPrim | null {
   const segments = path.split('/').filter(Boolean);
   let current: ParsedPrim[] = prims;
 
@@ -25,16 +53,6 @@ function findPrimByPath(prims: ParsedPrim[], path: string): ParsedPrim | null {
   return null;
 }
 
-// Deep clone a prim (without circular references)
-function clonePrim(prim: ParsedPrim): ParsedPrim {
-  return {
-    ...prim,
-    active: prim.active,
-    children: prim.children?.map(clonePrim),
-    resolvedChildren: prim.resolvedChildren?.map(clonePrim),
-  };
-}
-
 // Filter out inactive prims from the tree
 function filterActivePrims(prims: ParsedPrim[]): ParsedPrim[] {
   return prims
@@ -42,211 +60,324 @@ function filterActivePrims(prims: ParsedPrim[]): ParsedPrim[] {
     .map((prim) => ({
       ...prim,
       children: prim.children ? filterActivePrims(prim.children) : undefined,
-      resolvedChildren: prim.resolvedChildren ? filterActivePrims(prim.resolvedChildren) : undefined,
     }));
 }
 
-// Resolve references and payloads for a single prim
-function resolveReferencesForPrim(
+// Pick the selected variant of each variant set. Variant sets authored inside
+// a selected variant are selected in turn. Returns the prim with the variants'
+// opinions merged in (site) and the variants' opinions alone.
+function selectVariants(
   prim: ParsedPrim,
+  stagePath: string,
   context: ParseContext
-): ParsedPrim {
-  const resolved = { ...prim };
-
-  // Process references
-  if (prim.references?.length) {
-    resolved.resolvedChildren = resolved.resolvedChildren || [];
-
-    for (const ref of prim.references) {
-      const absolutePath = resolveRelativePath(context.currentFilePath, ref.assetPath);
-
-      // Circular reference detection
-      if (context.visitedPaths.has(absolutePath)) {
-        context.errors.push({
-          type: 'circular_reference',
-          message: `Circular reference detected: ${context.currentFilePath} -> ${absolutePath}`,
-          filePath: context.currentFilePath,
-        });
-        continue;
-      }
-
-      // File existence check
-      const referencedFile = context.files.get(absolutePath);
-      if (!referencedFile) {
-        context.errors.push({
-          type: 'missing_file',
-          message: `Referenced file not found: ${ref.assetPath} (resolved to ${absolutePath})`,
-          filePath: context.currentFilePath,
-        });
-        continue;
-      }
-
-      // Skip inactive files
-      if (!referencedFile.active) {
-        continue;
-      }
-
-      // Parse the referenced file
-      try {
-        const parsedPrims = parseUsda(referencedFile.content);
-
-        // Create new context for recursive resolution
-        const newContext: ParseContext = {
-          ...context,
-          currentFilePath: absolutePath,
-          visitedPaths: new Set([...context.visitedPaths, absolutePath]),
-        };
-
-        // Resolve references in the referenced file
-        const resolvedPrims = resolveAllReferences(parsedPrims, newContext);
-
-        // If a specific prim path is specified, find it
-        if (ref.primPath) {
-          const targetPrim = findPrimByPath(resolvedPrims, ref.primPath);
-          if (targetPrim) {
-            resolved.resolvedChildren.push(clonePrim(targetPrim));
-          } else {
-            context.errors.push({
-              type: 'invalid_prim_path',
-              message: `Prim path not found: ${ref.primPath} in ${ref.assetPath}`,
-              filePath: context.currentFilePath,
-            });
-          }
-        } else {
-          // Add all root prims from referenced file
-          resolved.resolvedChildren.push(...resolvedPrims.map(clonePrim));
-        }
-      } catch (error) {
-        context.errors.push({
-          type: 'parse_error',
-          message: `Failed to parse referenced file: ${ref.assetPath} - ${error}`,
-          filePath: context.currentFilePath,
-        });
-      }
-    }
+): { site: ParsedPrim; opinions?: ParsedPrim; selections: Record<string, string> } {
+  let site = prim;
+  let opinions: ParsedPrim | undefined;
+  const selections: Record<string, string> = {};
+  const applied = new Set<string>();
+  let variantSet: ParsedVariantSet | undefined;
+
+  while ((variantSet = site.variantSets?.find((set) => !applied.has(set.name)))) {
+    applied.add(variantSet.name);
+    const selection =
+      context.variantSelections[stagePath]?.[variantSet.name] ??
+      site.variantSelections?.[variantSet.name];
+    const variant = selection !== undefined ? variantSet.variants.get(selection) : undefined;
+    if (selection === undefined || !variant) continue;
+
+    selections[variantSet.name] = selection;
+    opinions = opinions ? mergePrims(opinions, variant) : variant;
+    site = mergePrims(site, variant);
   }
 
-  // Process payloads (same as references for now)
-  if (prim.payloads?.length) {
-    resolved.resolvedChildren = resolved.resolvedChildren || [];
-
-    for (const payload of prim.payloads) {
-      const absolutePath = resolveRelativePath(context.currentFilePath, payload.assetPath);
-
-      // Circular reference detection
-      if (context.visitedPaths.has(absolutePath)) {
-        context.errors.push({
-          type: 'circular_reference',
-          message: `Circular payload detected: ${context.currentFilePath} -> ${absolutePath}`,
-          filePath: context.currentFilePath,
-        });
-        continue;
-      }
-
-      // File existence check
-      const payloadFile = context.files.get(absolutePath);
-      if (!payloadFile) {
-        context.errors.push({
-          type: 'missing_file',
-          message: `Payload file not found: ${payload.assetPath} (resolved to ${absolutePath})`,
-          filePath: context.currentFilePath,
-        });
-        continue;
-      }
-
-      // Skip inactive files
-      if (!payloadFile.active) {
-        continue;
-      }
-
-      // Parse the payload file
-      try {
-        const parsedPrims = parseUsda(payloadFile.content);
-
-        // Create new context for recursive resolution
-        const newContext: ParseContext = {
-          ...context,
-          currentFilePath: absolutePath,
-          visitedPaths: new Set([...context.visitedPaths, absolutePath]),
-        };
-
-        // Resolve references in the payload file
-        const resolvedPrims = resolveAllReferences(parsedPrims, newContext);
-
-        // If a specific prim path is specified, find it
-        if (payload.primPath) {
-          const targetPrim = findPrimByPath(resolvedPrims, payload.primPath);
-          if (targetPrim) {
-            resolved.resolvedChildren.push(clonePrim(targetPrim));
-          } else {
-            context.errors.push({
-              type: 'invalid_prim_path',
-              message: `Prim path not found: ${payload.primPath} in ${payload.assetPath}`,
-              filePath: context.currentFilePath,
-            });
-          }
-        } else {
-          // Add all root prims from payload file
-          resolved.resolvedChildren.push(...resolvedPrims.map(clonePrim));
-        }
-      } catch (error) {
-        context.errors.push({
-          type: 'parse_error',
-          message: `Failed to parse payload file: ${payload.assetPath} - ${error}`,
-          filePath: context.currentFilePath,
-        });
-      }
+  return { site, opinions, selections };
+}
+
+// Selections authored on a prim and its descendants also select variants in
+// the weaker sites brought in by its arcs; selections already present win.
+function withAuthoredSelections(
+  selections: VariantSelections,
+  prim: ParsedPrim,
+  stagePath: string
+): VariantSelections {
+  let result = selections;
+  if (prim.variantSelections && Object.keys(prim.variantSelections).length > 0) {
+    result = { ...result, [stagePath]: { ...prim.variantSelections, ...result[stagePath] } };
+  }
+  for (const child of prim.children ?? []) {
+    result = withAuthoredSelections(result, child, `${stagePath}/${child.name}`);
+  }
+  return result;
+}
+
+// Where an arc is authored, for the errors it raises
+interface ArcSource {
+  layerPath?: string;
+  range?: SourceRange;
+}
+
+// The authored </Path> of an inherits or specializes arc, among the specs of
+// the prim (and selected variants) declaring it
+function findPathArcSource(
+  prim: ParsedPrim,
+  key: 'inherits' | 'specializes',
+  targetPath: string
+): ArcSource | undefined {
+  for (const { spec, layerPath } of prim.primSpecs ?? []) {
+    for (const entry of spec.metadata) {
+      if (entry.key !== key) continue;
+      const values = entry.value.kind === 'array' ? entry.value.elements : [entry.value];
+      const value = values.find((element) => element.kind === 'path' && element.path === targetPath);
+      if (value) return { layerPath, range: value.range };
     }
   }
+  return undefined;
+}
 
-  // Recursively resolve children
-  if (prim.children) {
-    resolved.children = prim.children.map((child) =>
-      resolveReferencesForPrim(child, context)
-    );
+// Compose the target of an inherits, specializes or internal reference arc,
+// which lives in the same layer stack, as opinions on the prim at stagePath
+function composeInternalArc(
+  kind: 'inherits' | 'specializes' | 'reference' | 'payload',
+  targetPath: string,
+  stagePath: string,
+  context: ParseContext,
+  source?: ArcSource
+): ParsedPrim | undefined {
+  const key = `${context.currentFilePath}<${targetPath}>`;
+  if (context.arcPath.includes(key)) {
+    reportError(context.errors, {
+      type: 'circular_reference',
+      message: `Circular ${kind} detected: ${stagePath} -> ${targetPath}`,
+      filePath: source?.layerPath ?? context.currentFilePath,
+      ...errorLocation(source?.range),
+    });
+    return undefined;
   }
 
-  return resolved;
+  const target = findPrimByPath(context.stackPrims, targetPath);
+  if (!target) {
+    reportError(context.errors, {
+      type: 'invalid_prim_path',
+      message: `Prim path not found: ${targetPath} (${kind} of ${stagePath})`,
+      filePath: source?.layerPath ?? context.currentFilePath,
+      ...errorLocation(source?.range),
+    });
+    return undefined;
+  }
+
+  const composed = composePrim(target, stagePath, { ...context, arcPath: [...context.arcPath, key] });
+  return remapPrimPaths(composed, targetPath, stagePath);
 }
 
-// Resolve all references in a list of prims
-export function resolveAllReferences(
-  prims: ParsedPrim[],
+// Compose the target prim of a reference or payload, in its own layer stack,
+// as opinions on the prim at stagePath
+function composeReferenceArc(
+  kind: 'reference' | 'payload',
+  arc: UsdReference,
+  stagePath: string,
   context: ParseContext
-): ParsedPrim[] {
-  return prims.map((prim) => resolveReferencesForPrim(prim, context));
+): ParsedPrim | undefined {
+  // Internal references (</Prim> without an asset) target the current layer stack
+  if (!arc.assetPath) {
+    return composeInternalArc(kind, arc.primPath ?? '', stagePath, context, arc);
+  }
+
+  const messages = EXTERNAL_ARC_MESSAGES[kind];
+  const sourcePath = arc.layerPath ?? context.currentFilePath;
+  const absolutePath = resolveRelativePath(sourcePath, arc.assetPath);
+
+  // Circular reference detection
+  if (context.visitedPaths.has(absolutePath)) {
+    reportError(context.errors, {
+      type: 'circular_reference',
+      message: `${messages.circular}: ${sourcePath} -> ${absolutePath}`,
+      filePath: sourcePath,
+      ...errorLocation(arc.range),
+    });
+    return undefined;
+  }
+
+  // File existence check
+  const file = context.files.get(absolutePath);
+  if (!file) {
+    reportError(context.errors, {
+      type: 'missing_file',
+      message: `${messages.missing}: ${arc.assetPath} (resolved to ${absolutePath})`,
+      filePath: sourcePath,
+      ...errorLocation(arc.range),
+    });
+    return undefined;
+  }
+
+  // Skip inactive files
+  if (!file.active) {
+    return undefined;
+  }
+
+  const layer = loadLayer(absolutePath, file.content, context);
+  const arcContext: ParseContext = {
+    ...context,
+    currentFilePath: absolutePath,
+    visitedPaths: new Set([...context.visitedPaths, absolutePath]),
+    stackPrims: [],
+  };
+  // Arcs reached through the same chain of layers share the composed stack,
+  // which ends with this layer's path
+  const stackKey = [...arcContext.visitedPaths].join('\n');
+  let stackPrims = context.stackCache.get(stackKey);
+  if (!stackPrims) {
+    stackPrims = composeLayerStack(absolutePath, layer, arcContext);
+    context.stackCache.set(stackKey, stackPrims);
+  }
+  arcContext.stackPrims = stackPrims;
+
+  // Without a prim path, target the layer's default prim. When none is
+  // authored, warn and fall back to the first root prim that is defined:
+  // classes are abstract and a bare over defines nothing.
+  let targetPath = arc.primPath;
+  if (!targetPath && !layer.metadata.defaultPrim) {
+    reportError(context.errors, {
+      type: 'missing_default_prim',
+      message: `${arc.assetPath} has no defaultPrim; add a prim path to the reference or set defaultPrim in the layer`,
+      filePath: sourcePath,
+      ...errorLocation(arc.range),
+    });
+    const fallback = arcContext.stackPrims.find(isDefinedPrim);
+    if (!fallback) return undefined;
+    targetPath = `/${fallback.name}`;
+  }
+  targetPath ??= `/${layer.metadata.defaultPrim}`;
+  const target = findPrimByPath(arcContext.stackPrims, targetPath);
+  if (!target) {
+    reportError(context.errors, {
+      type: 'invalid_prim_path',
+      message: `Prim path not found: ${targetPath} in ${arc.assetPath}`,
+      filePath: sourcePath,
+      ...errorLocation(arc.range),
+    });
+    return undefined;
+  }
+
+  // Animation in the referenced layer stack is retimed by the reference's offset
+  const composed = remapPrimPaths(composePrim(target, stagePath, arcContext), targetPath, stagePath);
+  return arc.layerOffset ? retimePrim(composed, arc.layerOffset) : composed;
+}
+
+// Each site contributes the arcs left after applying its own list-ops
+function siteArcs<T>(key: ListOpKey<T>, ...listOps: (ListOp<T> | undefined)[]): T[] {
+  return listOps.flatMap((listOp) => applyListOp(listOp, key));
+}
+
+// Compose every opinion on a prim in LIVRPS strength order: local, inherits,
+// variants, references, payloads, specializes. Arc targets are composed in
+// their own layer stacks, mapped onto this prim's path, and merged onto this
+// prim rather than added as children.
+function composePrim(prim: ParsedPrim, stagePath: string, context: ParseContext): ParsedPrim {
+  const { site, opinions: variantOpinions, selections } = selectVariants(prim, stagePath, context);
+
+  // Weaker sites see the variant selections authored on this prim and its descendants
+  const arcContext: ParseContext = {
+    ...context,
+    variantSelections: withAuthoredSelections(context.variantSelections, site, stagePath),
+  };
+
+  // Local and variant children are composed in this layer stack
+  const composed: ParsedPrim = {
+    ...prim,
+    variantSelections: selections,
+    children: site.children?.map((child) =>
+      composePrim(child, `${stagePath}/${child.name}`, context)
+    ),
+  };
+
+  const weaker: ParsedPrim[] = [];
+
+  for (const path of siteArcs(pathKey, prim.inherits, variantOpinions?.inherits)) {
+    const inherited = composeInternalArc(
+      'inherits',
+      path,
+      stagePath,
+      arcContext,
+      findPathArcSource(site, 'inherits', path)
+    );
+    if (inherited) weaker.push(inherited);
+  }
+
+  if (variantOpinions) {
+    weaker.push({ ...variantOpinions, children: undefined });
+  }
+
+  for (const reference of siteArcs(referenceKey, prim.references, variantOpinions?.references)) {
+    const referenced = composeReferenceArc('reference', reference, stagePath, arcContext);
+    if (referenced) {
+      weaker.push(referenced);
+    } else {
+      composed.unresolvedReferences = [...(composed.unresolvedReferences ?? []), reference];
+    }
+  }
+
+  for (const payload of siteArcs(referenceKey, prim.payloads, variantOpinions?.payloads)) {
+    const loaded = composeReferenceArc('payload', payload, stagePath, arcContext);
+    if (loaded) {
+      weaker.push(loaded);
+    } else {
+      composed.unresolvedPayloads = [...(composed.unresolvedPayloads ?? []), payload];
+    }
+  }
+
+  for (const path of siteArcs(pathKey, prim.specializes, variantOpinions?.specializes)) {
+    const specialized = composeInternalArc(
+      'specializes',
+      path,
+      stagePath,
+      arcContext,
+      findPathArcSource(site, 'specializes', path)
+    );
+    if (specialized) weaker.push(specialized);
+  }
+
+  return weaker.reduce((stronger, opinions) => mergePrims(stronger, opinions), composed);
 }
 
 // Main function to parse and resolve a USDA file with references
 export function parseAndResolve(
   content: string,
   currentFilePath: string,
-  files: Map<string, VirtualFile>
-): { prims: ParsedPrim[]; errors: ParseError[] } {
+  files: Map<string, VirtualFile>,
+  variantSelections: VariantSelections = {}
+): { prims: ParsedPrim[]; errors: ParseError[]; metadata: LayerMetadata } {
   const errors: ParseError[] = [];
 
   try {
-    const parsedPrims = parseUsda(content);
-
     const context: ParseContext = {
       currentFilePath,
       files,
       visitedPaths: new Set([currentFilePath]),
       errors,
+      layerCache: new Map(),
+      stackCache: new Map(),
+      variantSelections,
+      stackPrims: [],
+      arcPath: [],
     };
 
-    const resolvedPrims = resolveAllReferences(parsedPrims, context);
+    const rootLayer = loadLayer(currentFilePath, content, context);
+    context.stackPrims = composeLayerStack(currentFilePath, rootLayer, context);
+
+    const composedPrims = context.stackPrims.map((prim) =>
+      composePrim(prim, `/${prim.name}`, context)
+    );
 
     // Filter out inactive prims from composition
-    const activePrims = filterActivePrims(resolvedPrims);
+    const activePrims = filterActivePrims(composedPrims);
 
-    return { prims: activePrims, errors };
+    return { prims: activePrims, errors, metadata: rootLayer.metadata };
   } catch (error) {
     errors.push({
       type: 'parse_error',
       message: `Failed to parse USDA: ${error}`,
       filePath: currentFilePath,
     });
-    return { prims: [], errors };
+    return { prims: [], errors, metadata: {} };
   }
 }
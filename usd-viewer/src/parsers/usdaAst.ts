@@ -0,0 +1,186 @@
+import type { SourceRange } from './usdaLexer';
+
+// Typed syntax tree for a single USDA layer
+
+export interface NumberValue {
+  kind: 'number';
+  value: number;
+  range: SourceRange;
+}
+
+export interface StringValue {
+  kind: 'string';
+  value: string;
+  range: SourceRange;
+}
+
+// Bare identifiers used as values: true, false, None, unquoted tokens
+export interface IdentifierValue {
+  kind: 'identifier';
+  value: string;
+  range: SourceRange;
+}
+
+// Time remapping written after a sublayer or reference: ( offset = 10; scale = 2 )
+export interface LayerOffsetNode {
+  offset?: number;
+  scale?: number;
+  range: SourceRange;
+}
+
+// @./models/cube.usda@ optionally followed by a prim path: @./file.usda@</Prim>
+export interface AssetValue {
+  kind: 'asset';
+  path: string;
+  primPath?: string;
+  layerOffset?: LayerOffsetNode; // Only in metadata (subLayers, references, payload)
+  range: SourceRange;
+}
+
+// </World/Cube>
+export interface PathValue {
+  kind: 'path';
+  path: string;
+  range: SourceRange;
+}
+
+// (1, 2, 3)
+export interface TupleValue {
+  kind: 'tuple';
+  elements: ValueNode[];
+  range: SourceRange;
+}
+
+// [1, 2, 3]
+export interface ArrayValue {
+  kind: 'array';
+  elements: ValueNode[];
+  range: SourceRange;
+}
+
+// { string name = "a" double weight = 0.5 }
+export interface DictionaryValue {
+  kind: 'dictionary';
+  entries: DictionaryEntry[];
+  range: SourceRange;
+}
+
+export type ValueNode =
+  | NumberValue
+  | StringValue
+  | IdentifierValue
+  | AssetValue
+  | PathValue
+  | TupleValue
+  | ArrayValue
+  | DictionaryValue;
+
+export interface DictionaryEntry {
+  typeName: string;   // e.g. "string", "double[]", "dictionary"
+  key: string;
+  value: ValueNode;
+  range: SourceRange;
+}
+
+export type ListOpKind = 'prepend' | 'append' | 'delete' | 'add' | 'reorder';
+
+// A single entry inside a metadata block: ( key = value ... )
+export interface MetadataEntry {
+  key: string;
+  listOp?: ListOpKind;
+  value: ValueNode;
+  range: SourceRange;
+}
+
+export interface TimeSampleEntry {
+  time: number;
+  value: ValueNode;
+  range: SourceRange;
+}
+
+export interface TimeSamplesBlock {
+  entries: TimeSampleEntry[];
+  range: SourceRange;
+}
+
+export interface AttributeSpec {
+  kind: 'attribute';
+  name: string;            // e.g. "xformOp:translate"
+  typeName: string;        // e.g. "double3" (without the [] suffix)
+  isArray: boolean;
+  variability: 'varying' | 'uniform';
+  custom: boolean;
+  defaultValue?: ValueNode;
+  timeSamples?: TimeSamplesBlock;
+  connections?: ValueNode; // .connect = </Path.prop> or a list of paths
+  metadata: MetadataEntry[];
+  range: SourceRange;      // Range of the first declaration of this attribute
+  nameRange: SourceRange;
+}
+
+export interface RelationshipSpec {
+  kind: 'relationship';
+  name: string;            // e.g. "material:binding"
+  custom: boolean;
+  listOp?: ListOpKind;
+  targets?: ValueNode;     // A path, a list of paths, or None
+  metadata: MetadataEntry[];
+  range: SourceRange;
+  nameRange: SourceRange;
+}
+
+export type PropertySpec = AttributeSpec | RelationshipSpec;
+
+export type Specifier = 'def' | 'over' | 'class';
+
+export interface PrimSpec {
+  kind: 'prim';
+  specifier: Specifier;
+  typeName?: string;
+  name: string;
+  metadata: MetadataEntry[];
+  properties: PropertySpec[];
+  children: PrimSpec[];
+  variantSets: VariantSetSpec[];
+  range: SourceRange;
+  nameRange: SourceRange;
+}
+
+// One variant of a variant set: sparse opinions on the owning prim
+export interface VariantSpec {
+  kind: 'variant';
+  name: string;
+  metadata: MetadataEntry[];
+  properties: PropertySpec[];
+  children: PrimSpec[];
+  variantSets: VariantSetSpec[]; // Nested variant sets
+  range: SourceRange;
+  nameRange: SourceRange;
+}
+
+// variantSet "shadingVariant" = { "red" { ... } "blue" { ... } }
+export interface VariantSetSpec {
+  kind: 'variantSet';
+  name: string;
+  variants: VariantSpec[];
+  range: SourceRange;
+  nameRange: SourceRange;
+}
+
+export interface LayerSpec {
+  kind: 'layer';
+  version?: string;        // From the "#usda 1.0" header
+  metadata: MetadataEntry[];
+  prims: PrimSpec[];
+  range: SourceRange;
+}
+
+// Find a metadata entry by key (e.g. "references", "defaultPrim")
+export function findMetadata(metadata: MetadataEntry[], key: string): MetadataEntry | undefined {
+  return metadata.find((entry) => entry.key === key);
+}
+
+// Find a property spec on a prim or variant by name
+export function findProperty(prim: PrimSpec | VariantSpec, name: string): PropertySpec | undefined {
+  return prim.properties.find((property) => property.name === name);
+}
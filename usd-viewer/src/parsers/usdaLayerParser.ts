@@ -0,0 +1,644 @@
+// Recursive-descent parser that turns USDA text into a typed layer AST
+
+import {
+  tokenize,
+  UsdaSyntaxError,
+  type Token,
+  type SourceRange,
+  type UsdaDiagnostic,
+} from './usdaLexer';
+import type {
+  AssetValue,
+  LayerOffsetNode,
+  LayerSpec,
+  PrimSpec,
+  PropertySpec,
+  AttributeSpec,
+  RelationshipSpec,
+  MetadataEntry,
+  ValueNode,
+  DictionaryEntry,
+  TimeSamplesBlock,
+  TimeSampleEntry,
+  ListOpKind,
+  Specifier,
+  VariantSetSpec,
+  VariantSpec,
+} from './usdaAst';
+
+const SPECIFIERS = new Set<string>(['def', 'over', 'class']);
+const LIST_OPS = new Set<string>(['prepend', 'append', 'delete', 'add', 'reorder']);
+const VARIABILITY = new Set<string>(['uniform', 'varying', 'config']);
+
+// Value types accepted in attribute and dictionary declarations
+const VALUE_TYPES = new Set<string>([
+  'bool', 'uchar', 'int', 'uint', 'int64', 'uint64',
+  'half', 'float', 'double', 'timecode',
+  'string', 'token', 'asset', 'opaque', 'group', 'pathExpression', 'dictionary',
+  'matrix2d', 'matrix3d', 'matrix4d', 'frame4d',
+  'quatd', 'quatf', 'quath',
+  'float2', 'float3', 'float4', 'double2', 'double3', 'double4',
+  'int2', 'int3', 'int4', 'half2', 'half3', 'half4',
+  'point3f', 'point3d', 'point3h', 'normal3f', 'normal3d', 'normal3h',
+  'vector3f', 'vector3d', 'vector3h',
+  'color3f', 'color3d', 'color3h', 'color4f', 'color4d', 'color4h',
+  'texCoord2f', 'texCoord2d', 'texCoord2h', 'texCoord3f', 'texCoord3d', 'texCoord3h',
+]);
+
+const CLOSING_BRACKETS: Record<string, string> = { '}': '{', ')': '(', ']': '[' };
+
+export interface ParsedLayer {
+  layer: LayerSpec;
+  diagnostics: UsdaDiagnostic[];
+}
+
+function spanRange(start: SourceRange, end: SourceRange): SourceRange {
+  return { start: start.start, end: end.end };
+}
+
+// Syntax errors are reported as diagnostics; the parser skips the broken
+// statement and continues with the next one so a single typo does not
+// discard the rest of the layer.
+export function parseLayer(content: string): ParsedLayer {
+  const diagnostics: UsdaDiagnostic[] = [];
+  const tokens = tokenize(content, diagnostics);
+  let index = 0;
+
+  function peek(ahead = 0): Token {
+    return tokens[Math.min(index + ahead, tokens.length - 1)];
+  }
+
+  function next(): Token {
+    const token = peek();
+    if (token.kind !== 'eof') index++;
+    return token;
+  }
+
+  function previous(): Token {
+    return tokens[Math.max(index - 1, 0)];
+  }
+
+  function isPunctuation(value: string, token = peek()): boolean {
+    return token.kind === 'punctuation' && token.value === value;
+  }
+
+  function isIdentifier(value?: string, token = peek()): boolean {
+    return token.kind === 'identifier' && (value === undefined || token.value === value);
+  }
+
+  function describe(token: Token): string {
+    if (token.kind === 'eof') return 'end of file';
+    if (token.kind === 'string') return `"${token.value}"`;
+    return `'${token.value}'`;
+  }
+
+  function fail(message: string, token = peek()): never {
+    throw new UsdaSyntaxError(message, token.range);
+  }
+
+  function expectPunctuation(value: string, context?: string): Token {
+    if (!isPunctuation(value)) {
+      fail(`Expected '${value}'${context ? ` ${context}` : ''} but found ${describe(peek())}`);
+    }
+    return next();
+  }
+
+  function expectIdentifier(context: string): Token {
+    if (!isIdentifier()) {
+      fail(`Expected ${context} but found ${describe(peek())}`);
+    }
+    return next();
+  }
+
+  function expectString(context: string): Token {
+    if (peek().kind !== 'string') {
+      fail(`Expected ${context} but found ${describe(peek())}`);
+    }
+    return next();
+  }
+
+  function skipSeparators() {
+    while (isPunctuation(';') || isPunctuation(',')) next();
+  }
+
+  // Record a syntax error, then skip tokens until parsing can resume: the
+  // closing bracket of the enclosing block, the next prim, or the next
+  // statement that starts a line. Brackets opened since startIndex are tracked
+  // so that the skip does not stop inside a half-parsed value.
+  function recover(error: unknown, startIndex: number, blockClose: '}' | ')') {
+    if (!(error instanceof UsdaSyntaxError)) throw error;
+    diagnostics.push({ message: error.message, range: error.range });
+
+    const open: string[] = [];
+    for (let i = startIndex; i < index; i++) {
+      trackBracket(open, tokens[i]);
+    }
+
+    if (index === startIndex) next();
+
+    while (peek().kind !== 'eof') {
+      const token = peek();
+      // With only tuples or lists open, a brace or a new statement means they were never closed
+      const unclosedValue = open.length > 0 && !open.includes('{');
+      if (open.length === 0 || unclosedValue) {
+        if (isPunctuation(blockClose) || isPunctuation('}')) return;
+        if (blockClose === '}' && isIdentifier() && SPECIFIERS.has(token.value)) return;
+        if (atLineStart() && isIdentifier()) return;
+        if (atLineStart() && token.kind === 'string' && !unclosedValue) return;
+      }
+      trackBracket(open, token);
+      next();
+    }
+  }
+
+  // Whether the current token is the first one on its line
+  function atLineStart(): boolean {
+    return index === 0 || tokens[index - 1].range.end.line < peek().range.start.line;
+  }
+
+  function trackBracket(open: string[], token: Token) {
+    if (token.kind !== 'punctuation') return;
+    if (token.value === '{' || token.value === '(' || token.value === '[') {
+      open.push(token.value);
+    } else if (token.value in CLOSING_BRACKETS) {
+      const opener = CLOSING_BRACKETS[token.value];
+      const match = open.lastIndexOf(opener);
+      if (match !== -1) open.length = match;
+    }
+  }
+
+  // --- Values ---
+
+  // inMetadata: asset paths may carry a layer offset, e.g. @anim.usda@ (offset = 10; scale = 2)
+  function parseValue(inMetadata = false): ValueNode {
+    const token = peek();
+
+    switch (token.kind) {
+      case 'number':
+        next();
+        return { kind: 'number', value: parseNumber(token.value), range: token.range };
+      case 'string':
+        next();
+        return { kind: 'string', value: token.value, range: token.range };
+      case 'identifier':
+        next();
+        return { kind: 'identifier', value: token.value, range: token.range };
+      case 'asset': {
+        next();
+        const asset: AssetValue = { kind: 'asset', path: token.value, range: token.range };
+        // A prim path written directly after the asset: @file.usda@</Prim>
+        const target = peek();
+        if (target.kind === 'path' && target.range.start.offset === token.range.end.offset) {
+          next();
+          asset.primPath = target.value || undefined;
+          asset.range = spanRange(token.range, target.range);
+        }
+        if (inMetadata && isPunctuation('(')) {
+          asset.layerOffset = parseLayerOffset();
+          asset.range = spanRange(asset.range, asset.layerOffset.range);
+        }
+        return asset;
+      }
+      case 'path':
+        next();
+        return { kind: 'path', path: token.value, range: token.range };
+      case 'punctuation':
+        if (token.value === '(') return parseSequence('tuple', '(', ')', inMetadata);
+        if (token.value === '[') return parseSequence('array', '[', ']', inMetadata);
+        if (token.value === '{') return parseDictionary();
+        break;
+    }
+
+    fail(`Expected a value but found ${describe(token)}`);
+  }
+
+  function parseNumber(text: string): number {
+    if (text === 'inf') return Infinity;
+    if (text === '-inf') return -Infinity;
+    if (text === 'nan') return NaN;
+    return parseFloat(text);
+  }
+
+  function parseSequence(
+    kind: 'tuple' | 'array',
+    open: string,
+    close: string,
+    inMetadata: boolean
+  ): ValueNode {
+    const openToken = expectPunctuation(open);
+    const elements: ValueNode[] = [];
+
+    while (!isPunctuation(close)) {
+      if (peek().kind === 'eof') fail(`Unterminated ${kind}: expected '${close}'`, openToken);
+      elements.push(parseValue(inMetadata));
+      if (!isPunctuation(',')) break;
+      next();
+    }
+
+    const closeToken = expectPunctuation(close, `to close ${kind}`);
+    return { kind, elements, range: spanRange(openToken.range, closeToken.range) };
+  }
+
+  // ( offset = 10; scale = 2 )
+  function parseLayerOffset(): LayerOffsetNode {
+    const openToken = expectPunctuation('(');
+    const layerOffset: LayerOffsetNode = { range: openToken.range };
+
+    while (!isPunctuation(')')) {
+      const keyToken = expectIdentifier("'offset' or 'scale'");
+      if (keyToken.value !== 'offset' && keyToken.value !== 'scale') {
+        fail(`Unknown layer offset field '${keyToken.value}'`, keyToken);
+      }
+      expectPunctuation('=', `after '${keyToken.value}'`);
+      const valueToken = peek();
+      if (valueToken.kind !== 'number') {
+        fail(`Expected a number for '${keyToken.value}' but found ${describe(valueToken)}`);
+      }
+      next();
+      layerOffset[keyToken.value] = parseNumber(valueToken.value);
+      skipSeparators();
+    }
+
+    layerOffset.range = spanRange(openToken.range, next().range);
+    return layerOffset;
+  }
+
+  function parseTypeName(): string {
+    const typeToken = expectIdentifier('a value type');
+    if (!VALUE_TYPES.has(typeToken.value)) {
+      fail(`Unknown value type '${typeToken.value}'`, typeToken);
+    }
+    if (isPunctuation('[') && isPunctuation(']', peek(1))) {
+      next();
+      next();
+      return `${typeToken.value}[]`;
+    }
+    return typeToken.value;
+  }
+
+  function parseDictionary(): ValueNode {
+    const openToken = expectPunctuation('{');
+    const entries: DictionaryEntry[] = [];
+
+    while (!isPunctuation('}')) {
+      if (peek().kind === 'eof') fail("Unterminated dictionary: expected '}'", openToken);
+      const startToken = peek();
+      const typeName = parseTypeName();
+      const keyToken = peek().kind === 'string' ? next() : expectIdentifier('a dictionary key');
+      expectPunctuation('=', 'after dictionary key');
+      const value = parseValue();
+      entries.push({
+        typeName,
+        key: keyToken.value,
+        value,
+        range: spanRange(startToken.range, value.range),
+      });
+      skipSeparators();
+    }
+
+    const closeToken = expectPunctuation('}', 'to close dictionary');
+    return { kind: 'dictionary', entries, range: spanRange(openToken.range, closeToken.range) };
+  }
+
+  // --- Metadata ---
+
+  // Parse "( key = value ... )". Bare strings are documentation.
+  function parseMetadataBlock(): MetadataEntry[] {
+    const openToken = expectPunctuation('(');
+    const entries: MetadataEntry[] = [];
+
+    while (!isPunctuation(')')) {
+      if (peek().kind === 'eof') fail("Unterminated metadata: expected ')'", openToken);
+      const startIndex = index;
+      try {
+        entries.push(parseMetadataEntry());
+      } catch (error) {
+        recover(error, startIndex, ')');
+      }
+      skipSeparators();
+    }
+
+    next();
+    return entries;
+  }
+
+  function parseMetadataEntry(): MetadataEntry {
+    const startToken = peek();
+
+    if (startToken.kind === 'string') {
+      next();
+      return {
+        key: 'doc',
+        value: { kind: 'string', value: startToken.value, range: startToken.range },
+        range: startToken.range,
+      };
+    }
+
+    let listOp: ListOpKind | undefined;
+    if (isIdentifier() && LIST_OPS.has(peek().value) && isIdentifier(undefined, peek(1))) {
+      listOp = next().value as ListOpKind;
+    }
+
+    const keyToken = expectIdentifier('a metadata key');
+    expectPunctuation('=', `after '${keyToken.value}'`);
+    const value = parseValue(true);
+
+    return {
+      key: keyToken.value,
+      listOp,
+      value,
+      range: spanRange(startToken.range, value.range),
+    };
+  }
+
+  // --- Properties ---
+
+  function parseTimeSamples(): TimeSamplesBlock {
+    const openToken = expectPunctuation('{');
+    const entries: TimeSampleEntry[] = [];
+
+    while (!isPunctuation('}')) {
+      if (peek().kind === 'eof') fail("Unterminated timeSamples: expected '}'", openToken);
+      const timeToken = peek();
+      if (timeToken.kind !== 'number') {
+        fail(`Expected a time code but found ${describe(timeToken)}`);
+      }
+      next();
+      expectPunctuation(':', 'after time code');
+      const value = parseValue();
+      entries.push({
+        time: parseNumber(timeToken.value),
+        value,
+        range: spanRange(timeToken.range, value.range),
+      });
+      if (!isPunctuation(',')) break;
+      next();
+    }
+
+    const closeToken = expectPunctuation('}', 'to close timeSamples');
+    return { entries, range: spanRange(openToken.range, closeToken.range) };
+  }
+
+  function parseRelationship(
+    startToken: Token,
+    custom: boolean,
+    listOp: ListOpKind | undefined
+  ): RelationshipSpec {
+    const nameToken = expectIdentifier('a relationship name');
+    const relationship: RelationshipSpec = {
+      kind: 'relationship',
+      name: nameToken.value,
+      custom,
+      listOp,
+      metadata: [],
+      range: spanRange(startToken.range, nameToken.range),
+      nameRange: nameToken.range,
+    };
+
+    if (isPunctuation('=')) {
+      next();
+      relationship.targets = parseValue();
+    }
+    if (isPunctuation('(')) {
+      relationship.metadata = parseMetadataBlock();
+    }
+
+    relationship.range = spanRange(startToken.range, previous().range);
+    return relationship;
+  }
+
+  function parseProperty(properties: PropertySpec[]) {
+    const startToken = peek();
+
+    let listOp: ListOpKind | undefined;
+    if (LIST_OPS.has(peek().value) && isIdentifier(undefined, peek(1))) {
+      listOp = next().value as ListOpKind;
+    }
+
+    let custom = false;
+    if (isIdentifier('custom')) {
+      next();
+      custom = true;
+    }
+
+    let variability: AttributeSpec['variability'] = 'varying';
+    if (isIdentifier() && VARIABILITY.has(peek().value)) {
+      variability = next().value === 'uniform' ? 'uniform' : 'varying';
+    }
+
+    if (isIdentifier('rel')) {
+      next();
+      properties.push(parseRelationship(startToken, custom, listOp));
+      return;
+    }
+
+    const typeName = parseTypeName();
+    const nameToken = expectIdentifier('an attribute name');
+
+    let field: 'default' | 'timeSamples' | 'connect' = 'default';
+    if (isPunctuation('.')) {
+      next();
+      const fieldToken = expectIdentifier("'timeSamples' or 'connect'");
+      if (fieldToken.value === 'timeSamples' || fieldToken.value === 'connect') {
+        field = fieldToken.value;
+      } else if (fieldToken.value !== 'default') {
+        fail(`Unknown attribute field '${fieldToken.value}'`, fieldToken);
+      }
+    }
+
+    // Multiple declarations of the same attribute (default, timeSamples, connect) share one spec
+    const existing = properties.find(
+      (property): property is AttributeSpec =>
+        property.kind === 'attribute' && property.name === nameToken.value
+    );
+    const attribute: AttributeSpec = existing ?? {
+      kind: 'attribute',
+      name: nameToken.value,
+      typeName: typeName.replace(/\[\]$/, ''),
+      isArray: typeName.endsWith('[]'),
+      variability,
+      custom,
+      metadata: [],
+      range: spanRange(startToken.range, nameToken.range),
+      nameRange: nameToken.range,
+    };
+
+    if (isPunctuation('=')) {
+      next();
+      if (field === 'timeSamples') {
+        attribute.timeSamples = parseTimeSamples();
+      } else if (field === 'connect') {
+        attribute.connections = parseValue();
+      } else {
+        attribute.defaultValue = parseValue();
+      }
+    }
+    if (isPunctuation('(')) {
+      attribute.metadata = [...attribute.metadata, ...parseMetadataBlock()];
+    }
+
+    if (!existing) {
+      attribute.range = spanRange(startToken.range, previous().range);
+      properties.push(attribute);
+    }
+  }
+
+  // --- Prims ---
+
+  // Prims and variants share the same body grammar
+  function parsePrimBody(prim: PrimSpec | VariantSpec) {
+    const label = `${prim.kind} "${prim.name}"`;
+    const openToken = expectPunctuation('{', `to open ${label}`);
+
+    while (!isPunctuation('}')) {
+      const token = peek();
+      if (token.kind === 'eof') {
+        // Keep what was parsed so far; the error points at the unmatched brace
+        diagnostics.push({
+          message: `Unbalanced braces: ${label} is missing a closing '}'`,
+          range: openToken.range,
+        });
+        prim.range = spanRange(prim.range, previous().range);
+        return;
+      }
+
+      const startIndex = index;
+      try {
+        if (isIdentifier() && SPECIFIERS.has(token.value)) {
+          prim.children.push(parsePrim());
+        } else if (isIdentifier('variantSet') && peek(1).kind === 'string') {
+          prim.variantSets.push(parseVariantSet());
+        } else if (isIdentifier('reorder') && (isIdentifier('nameChildren', peek(1)) || isIdentifier('properties', peek(1)))) {
+          // Ordering statements do not affect what the viewer displays
+          next();
+          next();
+          expectPunctuation('=');
+          parseValue();
+        } else if (isIdentifier()) {
+          parseProperty(prim.properties);
+        } else {
+          fail(`Unexpected ${describe(token)} in ${label}`);
+        }
+      } catch (error) {
+        recover(error, startIndex, '}');
+      }
+      skipSeparators();
+    }
+
+    const closeToken = next();
+    prim.range = spanRange(prim.range, closeToken.range);
+  }
+
+  function parsePrim(): PrimSpec {
+    const specifierToken = next();
+    const specifier = specifierToken.value as Specifier;
+
+    let typeName: string | undefined;
+    if (isIdentifier()) {
+      typeName = next().value;
+    }
+
+    const nameToken = expectString('a prim name');
+    const prim: PrimSpec = {
+      kind: 'prim',
+      specifier,
+      typeName,
+      name: nameToken.value,
+      metadata: [],
+      properties: [],
+      children: [],
+      variantSets: [],
+      range: spanRange(specifierToken.range, nameToken.range),
+      nameRange: nameToken.range,
+    };
+
+    if (isPunctuation('(')) {
+      prim.metadata = parseMetadataBlock();
+    }
+
+    parsePrimBody(prim);
+    return prim;
+  }
+
+  // variantSet "name" = { "variantA" ( metadata ) { ... } "variantB" { ... } }
+  function parseVariantSet(): VariantSetSpec {
+    const startToken = next();
+    const nameToken = expectString('a variant set name');
+    expectPunctuation('=', `after variant set "${nameToken.value}"`);
+    const openToken = expectPunctuation('{', `to open variant set "${nameToken.value}"`);
+
+    const variantSet: VariantSetSpec = {
+      kind: 'variantSet',
+      name: nameToken.value,
+      variants: [],
+      range: spanRange(startToken.range, nameToken.range),
+      nameRange: nameToken.range,
+    };
+
+    while (!isPunctuation('}')) {
+      if (peek().kind === 'eof') {
+        fail(`Unterminated variant set "${variantSet.name}": expected '}'`, openToken);
+      }
+      const variantToken = expectString('a variant name');
+      const variant: VariantSpec = {
+        kind: 'variant',
+        name: variantToken.value,
+        metadata: [],
+        properties: [],
+        children: [],
+        variantSets: [],
+        range: variantToken.range,
+        nameRange: variantToken.range,
+      };
+      if (isPunctuation('(')) {
+        variant.metadata = parseMetadataBlock();
+      }
+      parsePrimBody(variant);
+      variantSet.variants.push(variant);
+    }
+
+    variantSet.range = spanRange(startToken.range, next().range);
+    return variantSet;
+  }
+
+  // --- Layer ---
+
+  const headerMatch = content.match(/^#usda\s+(\S+)/);
+  const layer: LayerSpec = {
+    kind: 'layer',
+    version: headerMatch?.[1],
+    metadata: [],
+    prims: [],
+    range: { start: { line: 1, column: 1, offset: 0 }, end: tokens[tokens.length - 1].range.end },
+  };
+
+  if (isPunctuation('(')) {
+    try {
+      layer.metadata = parseMetadataBlock();
+    } catch (error) {
+      recover(error, 0, '}');
+    }
+  }
+
+  while (peek().kind !== 'eof') {
+    const token = peek();
+    if (isPunctuation('}')) {
+      diagnostics.push({ message: "Unbalanced braces: unexpected '}'", range: token.range });
+      next();
+      continue;
+    }
+
+    const startIndex = index;
+    try {
+      if (isIdentifier() && SPECIFIERS.has(token.value)) {
+        layer.prims.push(parsePrim());
+      } else {
+        fail(`Expected 'def', 'over' or 'class' but found ${describe(token)}`);
+      }
+    } catch (error) {
+      recover(error, startIndex, '}');
+    }
+  }
+
+  return { layer, diagnostics };
+}
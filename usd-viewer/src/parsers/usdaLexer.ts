@@ -0,0 +1,237 @@
+// Tokenizer for the USDA text format
+
+export interface SourcePosition {
+  line: number;    // 1-based
+  column: number;  // 1-based
+  offset: number;  // 0-based character offset
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export type TokenKind =
+  | 'identifier'   // def, Xform, radius, xformOp:translate, true, None, ...
+  | 'number'       // 1, -2.5, 1e-3, inf, -inf, nan
+  | 'string'       // "text", 'text', """text"""
+  | 'asset'        // @./models/cube.usda@
+  | 'path'         // </World/Cube>
+  | 'punctuation'  // { } ( ) [ ] = , ; : .
+  | 'eof';
+
+export interface Token {
+  kind: TokenKind;
+  value: string;   // Decoded value (string contents without quotes, path without brackets, ...)
+  range: SourceRange;
+}
+
+// A syntax problem found while reading a layer
+export interface UsdaDiagnostic {
+  message: string;
+  range: SourceRange;
+}
+
+export class UsdaSyntaxError extends Error {
+  range: SourceRange;
+
+  constructor(message: string, range: SourceRange) {
+    super(message);
+    this.name = 'UsdaSyntaxError';
+    this.range = range;
+  }
+}
+
+const PUNCTUATION = new Set(['{', '}', '(', ')', '[', ']', '=', ',', ';', ':', '.']);
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  '0': '\0',
+};
+
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= '0' && char <= '9';
+}
+
+function isIdentifierStart(char: string | undefined): boolean {
+  return char !== undefined && /[A-Za-z_]/.test(char);
+}
+
+function isIdentifierPart(char: string | undefined): boolean {
+  return char !== undefined && /[A-Za-z0-9_]/.test(char);
+}
+
+// Lexical errors are recorded in diagnostics and tokenizing continues
+export function tokenize(content: string, diagnostics: UsdaDiagnostic[] = []): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  function position(): SourcePosition {
+    return { line, column, offset };
+  }
+
+  function advance(count = 1) {
+    for (let i = 0; i < count && offset < content.length; i++) {
+      if (content[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  }
+
+  function push(kind: TokenKind, value: string, start: SourcePosition) {
+    tokens.push({ kind, value, range: { start, end: position() } });
+  }
+
+  function report(message: string, start: SourcePosition) {
+    diagnostics.push({ message, range: { start, end: position() } });
+  }
+
+  function readString(start: SourcePosition) {
+    const quote = content[offset];
+    const triple = content.startsWith(quote.repeat(3), offset);
+    const terminator = triple ? quote.repeat(3) : quote;
+    advance(terminator.length);
+
+    let value = '';
+    while (offset < content.length) {
+      if (content.startsWith(terminator, offset)) {
+        advance(terminator.length);
+        push('string', value, start);
+        return;
+      }
+      const char = content[offset];
+      if (char === '\n' && !triple) break;
+      if (char === '\\' && offset + 1 < content.length) {
+        const next = content[offset + 1];
+        value += STRING_ESCAPES[next] ?? next;
+        advance(2);
+        continue;
+      }
+      value += char;
+      advance();
+    }
+    report('Unterminated string', start);
+    push('string', value, start);
+  }
+
+  function readDelimited(kind: 'asset' | 'path', open: string, close: string, start: SourcePosition) {
+    // Assets may also be written with triple @ delimiters: @@@path@@@
+    const triple = kind === 'asset' && content.startsWith('@@@', offset);
+    const terminator = triple ? '@@@' : close;
+    advance(triple ? 3 : open.length);
+
+    let value = '';
+    while (offset < content.length && !content.startsWith(terminator, offset)) {
+      if (content[offset] === '\n') break;
+      value += content[offset];
+      advance();
+    }
+    if (content.startsWith(terminator, offset)) {
+      advance(terminator.length);
+    } else {
+      report(kind === 'asset' ? 'Unterminated asset path' : 'Unterminated prim path', start);
+    }
+    push(kind, value, start);
+  }
+
+  function readNumber(start: SourcePosition) {
+    const match = content
+      .slice(offset)
+      .match(/^[-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?/);
+    const text = match?.[0] ?? content[offset];
+    advance(text.length);
+    if (!match) report('Invalid number', start);
+    push('number', text, start);
+  }
+
+  while (offset < content.length) {
+    const char = content[offset];
+    const next = content[offset + 1];
+    const start = position();
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      advance();
+      continue;
+    }
+
+    // Comments (including the #usda header line)
+    if (char === '#' || (char === '/' && next === '/')) {
+      while (offset < content.length && content[offset] !== '\n') advance();
+      continue;
+    }
+    if (char === '/' && next === '*') {
+      const end = content.indexOf('*/', offset + 2);
+      advance(end === -1 ? content.length - offset : end + 2 - offset);
+      if (end === -1) report('Unterminated comment', start);
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      readString(start);
+      continue;
+    }
+
+    if (char === '@') {
+      readDelimited('asset', '@', '@', start);
+      continue;
+    }
+
+    if (char === '<') {
+      readDelimited('path', '<', '>', start);
+      continue;
+    }
+
+    // Numbers, including signed infinities
+    if (isDigit(char) || (char === '.' && isDigit(next)) || ((char === '-' || char === '+') && (isDigit(next) || next === '.'))) {
+      readNumber(start);
+      continue;
+    }
+    if (char === '-' && content.startsWith('inf', offset + 1) && !isIdentifierPart(content[offset + 4])) {
+      advance(4);
+      push('number', '-inf', start);
+      continue;
+    }
+
+    // Identifiers, including namespaced names like primvars:displayColor
+    if (isIdentifierStart(char)) {
+      let value = '';
+      while (offset < content.length) {
+        if (isIdentifierPart(content[offset])) {
+          value += content[offset];
+          advance();
+        } else if (content[offset] === ':' && isIdentifierStart(content[offset + 1])) {
+          value += ':';
+          advance();
+        } else {
+          break;
+        }
+      }
+      push(value === 'inf' || value === 'nan' ? 'number' : 'identifier', value, start);
+      continue;
+    }
+
+    if (PUNCTUATION.has(char)) {
+      advance();
+      push('punctuation', char, start);
+      continue;
+    }
+
+    advance();
+    report(`Unexpected character '${char}'`, start);
+  }
+
+  tokens.push({ kind: 'eof', value: '', range: { start: position(), end: position() } });
+  return tokens;
+}
@@ -1,10 +1,99 @@
-import * as THREE from 'three';
-import type { UsdReference } from '../types/virtualFileSystem';
+import type { LayerOffset, UsdReference, UsdSubLayer } from '../types/virtualFileSystem';
+import {
+  IDENTITY_LAYER_OFFSET,
+  applyLayerOffset,
+  composeLayerOffsets,
+  isIdentityLayerOffset,
+  toLocalTime,
+} from './layerOffset';
+import { composeListOps, type ListOp, type ListOpKey } from './listOp';
+import { resolveRelativePath } from '../hooks/useVirtualFileSystem';
+import { parseLayer } from './usdaLayerParser';
+import type { SourceRange, UsdaDiagnostic } from './usdaLexer';
+import {
+  findMetadata,
+  findProperty,
+  type AttributeSpec,
+  type AssetValue,
+  type LayerSpec,
+  type ListOpKind,
+  type MetadataEntry,
+  type PrimSpec,
+  type PropertySpec,
+  type Specifier,
+  type ValueNode,
+  type VariantSetSpec,
+  type VariantSpec,
+} from './usdaAst';
 
 export type TimeSamples<T> = Map<number, T>;
 
+// Where an opinion is authored, so edits can be written back into the layer's text
+export interface OpinionSource<T> {
+  spec: T;
+  layerPath?: string; // Set once the layer is loaded
+}
+
+// One xformOp attribute (e.g. "xformOp:rotateXYZ" or "xformOp:translate:pivot").
+// Values are flattened: 1 for rotateX, 3 for translate, 4 for orient (w, x, y, z)
+// and 16 for transform, in the authored row-major order.
+export interface XformOpAttribute {
+  value?: number[];
+  timeSamples?: TimeSamples<number[]>;
+  layerOffset?: LayerOffset; // Maps the samples' local time into stage time
+  source?: OpinionSource<AttributeSpec>;
+}
+
+// The strongest opinion of any property, kept as authored for inspection
+export interface PropertyOpinion extends OpinionSource<PropertySpec> {
+  layerOffset?: LayerOffset; // Maps the time samples' local time into stage time
+}
+
+// An inputs:* or outputs:* attribute of a Material or Shader (UsdShade)
+export interface ShadeAttribute {
+  typeName: string;    // e.g. "color3f", "float", "token", "asset"
+  value?: number[];    // Numeric values, flattened
+  token?: string;      // token and string values
+  assetPath?: string;  // asset values, e.g. "./textures/albedo.png"
+  layerPath?: string;  // Layer the asset value was authored in; assetPath resolves against it
+  assetRange?: SourceRange; // The asset value in layerPath's text
+  connection?: string; // .connect target, e.g. "/World/Looks/Mat/Texture.outputs:rgb"
+}
+
+// How a primvar's values map onto a mesh's topology
+export type PrimvarInterpolation = 'constant' | 'uniform' | 'varying' | 'vertex' | 'faceVarying';
+
+// A texCoord2f (or float2) primvar, which UsdPrimvarReader_float2 reads by name
+export interface TexCoordPrimvar {
+  values: [number, number][];
+  indices?: number[]; // primvars:<name>:indices (indexed primvar)
+  interpolation?: PrimvarInterpolation;
+}
+
 export interface ParsedPrim {
-  type: 'Sphere' | 'Cube' | 'Cylinder' | 'Cone' | 'Xform' | 'Reference';
+  type:
+    | 'Sphere'
+    | 'Cube'
+    | 'Cylinder'
+    | 'Cone'
+    | 'Capsule'
+    | 'Plane'
+    | 'Mesh'
+    | 'Points'
+    | 'BasisCurves'
+    | 'Material'
+    | 'Shader'
+    | 'DistantLight'
+    | 'DomeLight'
+    | 'RectLight'
+    | 'SphereLight'
+    | 'DiskLight'
+    | 'CylinderLight'
+    | 'Camera'
+    | 'Xform'
+    | 'Reference';
+  typeName?: string; // Authored schema type; undefined for typeless prims
+  specifier: Specifier; // over = sparse override, class = abstract (not rendered)
   name: string;
   active?: boolean; // USD active flag - false means excluded from composition
   radius?: number;
@@ -15,22 +104,373 @@ export interface ParsedPrim {
   heightTimeSamples?: TimeSamples<number>;
   color?: [number, number, number];
   colorTimeSamples?: TimeSamples<[number, number, number]>;
-  position?: [number, number, number];
-  positionTimeSamples?: TimeSamples<[number, number, number]>;
-  rotation?: [number, number, number];
-  rotationTimeSamples?: TimeSamples<[number, number, number]>;
-  scale?: [number, number, number];
-  scaleTimeSamples?: TimeSamples<[number, number, number]>;
+  // UsdGeomXformable: op attributes by name, applied in xformOpOrder
+  xformOps?: Record<string, XformOpAttribute>;
+  xformOpOrder?: string[];
+  xformOpOrderSource?: OpinionSource<AttributeSpec>;
+  // UsdGeomMesh
+  points?: [number, number, number][];
+  pointsTimeSamples?: TimeSamples<[number, number, number][]>;
+  faceVertexCounts?: number[];
+  faceVertexIndices?: number[];
+  normals?: [number, number, number][];
+  normalsInterpolation?: PrimvarInterpolation;
+  texCoords?: Record<string, TexCoordPrimvar>; // By primvar name, e.g. st for primvars:st
+  orientation?: 'rightHanded' | 'leftHanded';
+  doubleSided?: boolean;
+  subdivisionScheme?: string; // 'none' renders faceted when no normals are authored
+  // Cylinder, Cone, Capsule and Plane
+  axis?: 'X' | 'Y' | 'Z';
+  width?: number;  // Plane
+  length?: number; // Plane
+  // UsdGeomPoints and UsdGeomBasisCurves (which also use points)
+  widths?: number[];
+  widthsInterpolation?: PrimvarInterpolation;
+  curveVertexCounts?: number[];
+  curveType?: 'linear' | 'cubic'; // The curves' "type" attribute
+  curveBasis?: 'bezier' | 'bspline' | 'catmullRom';
+  curveWrap?: 'nonperiodic' | 'periodic' | 'pinned';
+  // UsdShade: shader inputs and outputs by name without the namespace ("diffuseColor")
+  shaderId?: string; // info:id, e.g. "UsdPreviewSurface"
+  inputs?: Record<string, ShadeAttribute>;
+  outputs?: Record<string, ShadeAttribute>;
+  materialBinding?: string; // rel material:binding target; descendants inherit it
+  // UsdGeomCamera; focal length and apertures are in tenths of a scene unit
+  focalLength?: number;
+  focalLengthTimeSamples?: TimeSamples<number>;
+  horizontalAperture?: number;
+  verticalAperture?: number;
+  clippingRange?: [number, number]; // Near and far distances
+  projection?: 'perspective' | 'orthographic';
+  // UsdLux lights keep their inputs (intensity, color, shaping:cone:angle, ...) in inputs
+  // Samples stay in their layer's local time; this maps each attribute's samples into stage time
+  timeSampleOffsets?: Partial<Record<TimeSampledField, LayerOffset>>;
   children?: ParsedPrim[];
-  // Reference/Payload support
-  references?: UsdReference[];
-  payloads?: UsdReference[];
-  // Resolved children from references
-  resolvedChildren?: ParsedPrim[];
+  // Every spec contributing to the prim, strongest first, with the file and range it is authored at
+  primSpecs?: OpinionSource<PrimSpec | VariantSpec>[];
+  // Every authored property and metadata field, by name, with its strongest opinion
+  properties?: Record<string, PropertyOpinion>;
+  primMetadata?: Record<string, OpinionSource<MetadataEntry>>;
+  // Composition arcs, as list-ops composed across the layer stack
+  references?: ListOp<UsdReference>;
+  payloads?: ListOp<UsdReference>;
+  inherits?: ListOp<string>;    // Prim paths in the same layer stack
+  specializes?: ListOp<string>; // Prim paths in the same layer stack
+  // Arcs that could not be resolved (missing file or prim), set during composition
+  unresolvedReferences?: UsdReference[];
+  unresolvedPayloads?: UsdReference[];
+  // Variant support
+  variantSets?: ParsedVariantSet[];
+  variantSelections?: Record<string, string>; // Variant set name -> selected variant
+}
+
+// The variants of one variant set, each holding its opinions as an over of the owning prim
+export interface ParsedVariantSet {
+  name: string;
+  variants: Map<string, ParsedPrim>;
+}
+
+// Stage-level settings authored in the layer header
+export interface LayerMetadata {
+  defaultPrim?: string;
+  startTimeCode?: number;
+  endTimeCode?: number;
+  timeCodesPerSecond?: number;
+  framesPerSecond?: number;
+  upAxis?: 'Y' | 'Z';
+  metersPerUnit?: number;
+  doc?: string;
+  subLayers?: UsdSubLayer[]; // Strongest first
+}
+
+// USD fallback when neither timeCodesPerSecond nor framesPerSecond is authored
+const DEFAULT_TIME_CODES_PER_SECOND = 24;
+
+// Playback rate in time codes per second; USD falls back to framesPerSecond when unauthored
+export function getTimeCodesPerSecond(metadata?: LayerMetadata): number {
+  return metadata?.timeCodesPerSecond ?? metadata?.framesPerSecond ?? DEFAULT_TIME_CODES_PER_SECOND;
+}
+
+// Intended display frame rate, used for video recording
+export function getFramesPerSecond(metadata?: LayerMetadata): number {
+  return metadata?.framesPerSecond ?? getTimeCodesPerSecond(metadata);
+}
+
+// Attribute-backed fields of ParsedPrim as [default value, time samples] pairs.
+// A stronger opinion on either field replaces both fields of a weaker opinion.
+const ATTRIBUTE_FIELDS = [
+  ['radius', 'radiusTimeSamples'],
+  ['size', 'sizeTimeSamples'],
+  ['height', 'heightTimeSamples'],
+  ['color', 'colorTimeSamples'],
+  ['points', 'pointsTimeSamples'],
+  ['focalLength', 'focalLengthTimeSamples'],
+] as const satisfies readonly (readonly [keyof ParsedPrim, keyof ParsedPrim])[];
+
+// Attribute-backed fields without time samples; a stronger opinion replaces a weaker one
+const UNIFORM_FIELDS = [
+  'xformOpOrder',
+  'xformOpOrderSource',
+  'faceVertexCounts',
+  'faceVertexIndices',
+  'normals',
+  'normalsInterpolation',
+  'orientation',
+  'doubleSided',
+  'subdivisionScheme',
+  'axis',
+  'width',
+  'length',
+  'widths',
+  'widthsInterpolation',
+  'curveVertexCounts',
+  'curveType',
+  'curveBasis',
+  'curveWrap',
+  'shaderId',
+  'materialBinding',
+  'horizontalAperture',
+  'verticalAperture',
+  'clippingRange',
+  'projection',
+] as const satisfies readonly (keyof ParsedPrim)[];
+
+export type TimeSampledField = (typeof ATTRIBUTE_FIELDS)[number][1];
+
+// References and payloads are identified by the file and prim they target
+export const referenceKey: ListOpKey<UsdReference> = (reference) => {
+  if (!reference.assetPath) return `<${reference.primPath ?? ''}>`;
+  const assetPath = reference.layerPath
+    ? resolveRelativePath(reference.layerPath, reference.assetPath)
+    : reference.assetPath;
+  return `@${assetPath}@<${reference.primPath ?? ''}>`;
+};
+
+export const pathKey: ListOpKey<string> = (path) => path;
+
+// Only prims with a defining specifier (and defined ancestors) are rendered
+export function isDefinedPrim(prim: ParsedPrim): boolean {
+  return prim.specifier === 'def';
+}
+
+// Compose two opinions for the same prim path. The stronger opinion is
+// sparse: anything it does not author falls through to the weaker one.
+// Children are merged by name.
+export function mergePrims(stronger: ParsedPrim, weaker: ParsedPrim): ParsedPrim {
+  const merged: ParsedPrim = {
+    ...weaker,
+    name: stronger.name,
+    typeName: stronger.typeName ?? weaker.typeName,
+    type: stronger.typeName ? stronger.type : weaker.type,
+    specifier: stronger.specifier === 'over' ? weaker.specifier : stronger.specifier,
+    active: stronger.active ?? weaker.active,
+    references: composeListOps(stronger.references, weaker.references, referenceKey),
+    payloads: composeListOps(stronger.payloads, weaker.payloads, referenceKey),
+    inherits: composeListOps(stronger.inherits, weaker.inherits, pathKey),
+    specializes: composeListOps(stronger.specializes, weaker.specializes, pathKey),
+    unresolvedReferences: mergeLists(stronger.unresolvedReferences, weaker.unresolvedReferences),
+    unresolvedPayloads: mergeLists(stronger.unresolvedPayloads, weaker.unresolvedPayloads),
+    primSpecs: mergeLists(stronger.primSpecs, weaker.primSpecs),
+    children: mergePrimLists(stronger.children, weaker.children),
+    variantSets: mergeVariantSets(stronger.variantSets, weaker.variantSets),
+    // Each op is its own attribute, so the strongest opinion wins per op name
+    xformOps:
+      stronger.xformOps || weaker.xformOps ? { ...weaker.xformOps, ...stronger.xformOps } : undefined,
+    // Likewise per primvar name
+    texCoords:
+      stronger.texCoords || weaker.texCoords ? { ...weaker.texCoords, ...stronger.texCoords } : undefined,
+    inputs: stronger.inputs || weaker.inputs ? { ...weaker.inputs, ...stronger.inputs } : undefined,
+    outputs: stronger.outputs || weaker.outputs ? { ...weaker.outputs, ...stronger.outputs } : undefined,
+    properties: mergePropertyOpinions(stronger.properties, weaker.properties),
+    primMetadata:
+      stronger.primMetadata || weaker.primMetadata
+        ? { ...weaker.primMetadata, ...stronger.primMetadata }
+        : undefined,
+    variantSelections:
+      stronger.variantSelections || weaker.variantSelections
+        ? { ...weaker.variantSelections, ...stronger.variantSelections }
+        : undefined,
+  };
+
+  const timeSampleOffsets = { ...weaker.timeSampleOffsets };
+  for (const [valueField, samplesField] of ATTRIBUTE_FIELDS) {
+    if (stronger[valueField] !== undefined || stronger[samplesField] !== undefined) {
+      Object.assign(merged, {
+        [valueField]: stronger[valueField],
+        [samplesField]: stronger[samplesField],
+      });
+      timeSampleOffsets[samplesField] = stronger.timeSampleOffsets?.[samplesField];
+    }
+  }
+  merged.timeSampleOffsets = timeSampleOffsets;
+
+  for (const field of UNIFORM_FIELDS) {
+    if (stronger[field] !== undefined) {
+      Object.assign(merged, { [field]: stronger[field] });
+    }
+  }
+
+  return merged;
+}
+
+// A property declared without a value (or targets) leaves a weaker opinion's value in place
+function authorsValue(spec: PropertySpec): boolean {
+  if (spec.kind === 'relationship') return spec.targets !== undefined;
+  return spec.defaultValue !== undefined || spec.timeSamples !== undefined || spec.connections !== undefined;
+}
+
+function mergePropertyOpinions(
+  stronger: Record<string, PropertyOpinion> | undefined,
+  weaker: Record<string, PropertyOpinion> | undefined
+): Record<string, PropertyOpinion> | undefined {
+  if (!stronger) return weaker;
+  if (!weaker) return stronger;
+  const merged = { ...weaker };
+  for (const [name, opinion] of Object.entries(stronger)) {
+    if (!merged[name] || authorsValue(opinion.spec)) merged[name] = opinion;
+  }
+  return merged;
+}
+
+function mergeLists<T>(stronger: T[] | undefined, weaker: T[] | undefined): T[] | undefined {
+  if (!stronger?.length) return weaker;
+  if (!weaker?.length) return stronger;
+  return [...stronger, ...weaker];
+}
+
+// Merge variant sets by name, and the opinions of same-named variants
+function mergeVariantSets(
+  stronger: ParsedVariantSet[] | undefined,
+  weaker: ParsedVariantSet[] | undefined
+): ParsedVariantSet[] | undefined {
+  if (!stronger?.length) return weaker;
+  if (!weaker?.length) return stronger;
+
+  const merged = weaker.map((variantSet) => ({ ...variantSet, variants: new Map(variantSet.variants) }));
+  for (const variantSet of stronger) {
+    const target = merged.find((candidate) => candidate.name === variantSet.name);
+    if (!target) {
+      merged.push(variantSet);
+      continue;
+    }
+    for (const [name, opinions] of variantSet.variants) {
+      const existing = target.variants.get(name);
+      target.variants.set(name, existing ? mergePrims(opinions, existing) : opinions);
+    }
+  }
+  return merged;
+}
+
+// Merge two sibling lists (or layers' root prims) by prim name
+export function mergePrimLists(
+  stronger: ParsedPrim[] | undefined,
+  weaker: ParsedPrim[] | undefined
+): ParsedPrim[] | undefined {
+  if (!stronger?.length) return weaker;
+  if (!weaker?.length) return stronger;
+
+  const strongerByName = new Map(stronger.map((child) => [child.name, child]));
+  const merged = weaker.map((child) => {
+    const override = strongerByName.get(child.name);
+    return override ? mergePrims(override, child) : child;
+  });
+  const weakerNames = new Set(weaker.map((child) => child.name));
+  return [...merged, ...stronger.filter((child) => !weakerNames.has(child.name))];
 }
 
-// Interpolation functions
-export function interpolateValue(timeSamples: TimeSamples<number>, frame: number): number {
+// Bring a prim's samples (and its descendants') through a layer offset into
+// the including layer's time. Sample times are kept; the offset is composed
+// into timeSampleOffsets.
+export function retimePrim(prim: ParsedPrim, layerOffset: LayerOffset): ParsedPrim {
+  if (isIdentityLayerOffset(layerOffset)) return prim;
+
+  const retimed: ParsedPrim = {
+    ...prim,
+    children: prim.children?.map((child) => retimePrim(child, layerOffset)),
+    variantSets: prim.variantSets?.map((variantSet) => ({
+      ...variantSet,
+      variants: new Map(
+        Array.from(variantSet.variants, ([name, opinions]) => [name, retimePrim(opinions, layerOffset)])
+      ),
+    })),
+  };
+
+  const timeSampleOffsets = { ...prim.timeSampleOffsets };
+  for (const [, samplesField] of ATTRIBUTE_FIELDS) {
+    if (prim[samplesField]) {
+      timeSampleOffsets[samplesField] = composeLayerOffsets(
+        layerOffset,
+        prim.timeSampleOffsets?.[samplesField] ?? IDENTITY_LAYER_OFFSET
+      );
+    }
+  }
+  retimed.timeSampleOffsets = timeSampleOffsets;
+
+  if (prim.xformOps) {
+    retimed.xformOps = Object.fromEntries(
+      Object.entries(prim.xformOps).map(([name, op]) => [
+        name,
+        op.timeSamples
+          ? { ...op, layerOffset: composeLayerOffsets(layerOffset, op.layerOffset ?? IDENTITY_LAYER_OFFSET) }
+          : op,
+      ])
+    );
+  }
+
+  if (prim.properties) {
+    retimed.properties = Object.fromEntries(
+      Object.entries(prim.properties).map(([name, opinion]) => [
+        name,
+        opinion.spec.kind === 'attribute' && opinion.spec.timeSamples
+          ? {
+              ...opinion,
+              layerOffset: composeLayerOffsets(layerOffset, opinion.layerOffset ?? IDENTITY_LAYER_OFFSET),
+            }
+          : opinion,
+      ])
+    );
+  }
+
+  return retimed;
+}
+
+// Paths authored inside a referenced or inherited prim name its namespace in
+// the source layer stack. Map them onto the path the prim is composed at.
+export function remapPrimPaths(prim: ParsedPrim, sourcePath: string, targetPath: string): ParsedPrim {
+  if (sourcePath === targetPath) return prim;
+
+  const remap = (path: string | undefined) => {
+    if (path === undefined) return undefined;
+    const rest = path.slice(sourcePath.length);
+    const inNamespace = path.startsWith(sourcePath) && (rest === '' || rest[0] === '/' || rest[0] === '.');
+    return inNamespace ? targetPath + rest : path;
+  };
+  const remapAttributes = (attributes: Record<string, ShadeAttribute> | undefined) =>
+    attributes &&
+    Object.fromEntries(
+      Object.entries(attributes).map(([name, attribute]) => [
+        name,
+        attribute.connection ? { ...attribute, connection: remap(attribute.connection) } : attribute,
+      ])
+    );
+
+  return {
+    ...prim,
+    materialBinding: remap(prim.materialBinding),
+    inputs: remapAttributes(prim.inputs),
+    outputs: remapAttributes(prim.outputs),
+    children: prim.children?.map((child) => remapPrimPaths(child, sourcePath, targetPath)),
+  };
+}
+
+// Interpolation functions. stageFrame is in stage time and is mapped into the
+// samples' local time through their layer offset.
+export function interpolateValue(
+  timeSamples: TimeSamples<number>,
+  stageFrame: number,
+  layerOffset: LayerOffset = IDENTITY_LAYER_OFFSET
+): number {
+  const frame = toLocalTime(layerOffset, stageFrame);
   const times = Array.from(timeSamples.keys()).sort((a, b) => a - b);
   if (times.length === 0) return 0;
   if (frame <= times[0]) return timeSamples.get(times[0])!;
@@ -49,8 +489,10 @@ export function interpolateValue(timeSamples: TimeSamples<number>, frame: number
 
 export function interpolateVector3(
   timeSamples: TimeSamples<[number, number, number]>,
-  frame: number
+  stageFrame: number,
+  layerOffset: LayerOffset = IDENTITY_LAYER_OFFSET
 ): [number, number, number] {
+  const frame = toLocalTime(layerOffset, stageFrame);
   const times = Array.from(timeSamples.keys()).sort((a, b) => a - b);
   if (times.length === 0) return [0, 0, 0];
   if (frame <= times[0]) return timeSamples.get(times[0])!;
@@ -71,381 +513,488 @@ export function interpolateVector3(
   return timeSamples.get(times[0])!;
 }
 
-export function getTimeRange(prims: ParsedPrim[]): { startFrame: number; endFrame: number } {
+// Arrays such as mesh points blend element-wise; samples with different
+// lengths cannot be blended, so the earlier one is held
+export function interpolateVector3Array(
+  timeSamples: TimeSamples<[number, number, number][]>,
+  stageFrame: number,
+  layerOffset: LayerOffset = IDENTITY_LAYER_OFFSET
+): [number, number, number][] {
+  const frame = toLocalTime(layerOffset, stageFrame);
+  const times = Array.from(timeSamples.keys()).sort((a, b) => a - b);
+  if (times.length === 0) return [];
+  if (frame <= times[0]) return timeSamples.get(times[0])!;
+  if (frame >= times[times.length - 1]) return timeSamples.get(times[times.length - 1])!;
+
+  for (let i = 0; i < times.length - 1; i++) {
+    if (frame >= times[i] && frame <= times[i + 1]) {
+      const t = (frame - times[i]) / (times[i + 1] - times[i]);
+      const v0 = timeSamples.get(times[i])!;
+      const v1 = timeSamples.get(times[i + 1])!;
+      if (v0.length !== v1.length) return v0;
+      return v0.map((p0, index) => {
+        const p1 = v1[index];
+        return [
+          p0[0] + (p1[0] - p0[0]) * t,
+          p0[1] + (p1[1] - p0[1]) * t,
+          p0[2] + (p1[2] - p0[2]) * t,
+        ];
+      });
+    }
+  }
+  return timeSamples.get(times[0])!;
+}
+
+// The authored startTimeCode/endTimeCode win; otherwise the range is inferred from the time samples
+export function getTimeRange(
+  prims: ParsedPrim[],
+  metadata?: LayerMetadata
+): { startFrame: number; endFrame: number } {
   let minFrame = Infinity;
   let maxFrame = -Infinity;
 
   function collectTimes(prim: ParsedPrim) {
-    const allTimeSamples = [
-      prim.radiusTimeSamples,
-      prim.sizeTimeSamples,
-      prim.heightTimeSamples,
-      prim.colorTimeSamples,
-      prim.positionTimeSamples,
-      prim.rotationTimeSamples,
-      prim.scaleTimeSamples,
-    ];
-
-    for (const ts of allTimeSamples) {
+    if (!isDefinedPrim(prim)) return;
+
+    for (const [, samplesField] of ATTRIBUTE_FIELDS) {
+      const ts = prim[samplesField] as TimeSamples<unknown> | undefined;
       if (ts) {
-        for (const time of ts.keys()) {
+        const layerOffset = prim.timeSampleOffsets?.[samplesField] ?? IDENTITY_LAYER_OFFSET;
+        for (const localTime of ts.keys()) {
+          const time = applyLayerOffset(layerOffset, localTime);
           minFrame = Math.min(minFrame, time);
           maxFrame = Math.max(maxFrame, time);
         }
       }
     }
 
+    for (const op of Object.values(prim.xformOps ?? {})) {
+      for (const localTime of op.timeSamples?.keys() ?? []) {
+        const time = applyLayerOffset(op.layerOffset ?? IDENTITY_LAYER_OFFSET, localTime);
+        minFrame = Math.min(minFrame, time);
+        maxFrame = Math.max(maxFrame, time);
+      }
+    }
+
     prim.children?.forEach(collectTimes);
-    prim.resolvedChildren?.forEach(collectTimes);
   }
 
   prims.forEach(collectTimes);
 
   if (minFrame === Infinity) {
-    return { startFrame: 0, endFrame: 0 };
+    minFrame = 0;
+    maxFrame = 0;
   }
-  return { startFrame: minFrame, endFrame: maxFrame };
+  return {
+    startFrame: metadata?.startTimeCode ?? minFrame,
+    endFrame: metadata?.endTimeCode ?? maxFrame,
+  };
 }
 
-function parseTimeSamplesScalar(content: string, startIndex: number): { samples: TimeSamples<number>; endIndex: number } {
-  const samples = new Map<number, number>();
-  let i = startIndex;
-  const lines = content.split('\n');
+// --- AST value conversion ---
 
-  while (i < lines.length) {
-    const line = lines[i].trim();
-    if (line === '}') break;
+function toNumber(value: ValueNode | undefined): number | undefined {
+  return value?.kind === 'number' ? value.value : undefined;
+}
 
-    const sampleMatch = line.match(/^([\d.-]+)\s*:\s*([\d.-]+),?$/);
-    if (sampleMatch) {
-      const time = parseFloat(sampleMatch[1]);
-      const value = parseFloat(sampleMatch[2]);
-      samples.set(time, value);
-    }
-    i++;
+function toVector3(value: ValueNode | undefined): [number, number, number] | undefined {
+  if (value?.kind !== 'tuple' || value.elements.length !== 3) return undefined;
+  const [x, y, z] = value.elements.map(toNumber);
+  if (x === undefined || y === undefined || z === undefined) return undefined;
+  return [x, y, z];
+}
+
+function toNumberArray(value: ValueNode | undefined): number[] | undefined {
+  if (value?.kind !== 'array') return undefined;
+  return value.elements.map(toNumber).filter((element) => element !== undefined);
+}
+
+function toVector2Array(value: ValueNode | undefined): [number, number][] | undefined {
+  if (value?.kind !== 'array') return undefined;
+  return value.elements.flatMap((element) => {
+    if (element.kind !== 'tuple' || element.elements.length !== 2) return [];
+    const [u, v] = element.elements.map(toNumber);
+    return u === undefined || v === undefined ? [] : [[u, v] as [number, number]];
+  });
+}
+
+function toVector3Array(value: ValueNode | undefined): [number, number, number][] | undefined {
+  if (value?.kind !== 'array') return undefined;
+  return value.elements.map(toVector3).filter((element) => element !== undefined);
+}
+
+function toBoolean(value: ValueNode | undefined): boolean | undefined {
+  if (value?.kind === 'number') return value.value !== 0;
+  if (value?.kind === 'identifier' && (value.value === 'true' || value.value === 'false')) {
+    return value.value === 'true';
   }
+  return undefined;
+}
 
-  return { samples, endIndex: i };
-}
-
-function parseTimeSamplesVector3(
-  content: string,
-  startIndex: number,
-  convertToRadians = false
-): { samples: TimeSamples<[number, number, number]>; endIndex: number } {
-  const samples = new Map<number, [number, number, number]>();
-  let i = startIndex;
-  const lines = content.split('\n');
-
-  while (i < lines.length) {
-    const line = lines[i].trim();
-    if (line === '}') break;
-
-    const sampleMatch = line.match(/^([\d.-]+)\s*:\s*\(\s*([\d.-]+)\s*,\s*([\d.-]+)\s*,\s*([\d.-]+)\s*\),?$/);
-    if (sampleMatch) {
-      const time = parseFloat(sampleMatch[1]);
-      let values: [number, number, number] = [
-        parseFloat(sampleMatch[2]),
-        parseFloat(sampleMatch[3]),
-        parseFloat(sampleMatch[4]),
-      ];
-      if (convertToRadians) {
-        values = [
-          THREE.MathUtils.degToRad(values[0]),
-          THREE.MathUtils.degToRad(values[1]),
-          THREE.MathUtils.degToRad(values[2]),
-        ];
-      }
-      samples.set(time, values);
+// Colors are authored as arrays (color3f[] primvars:displayColor); use the first entry
+function toColor(value: ValueNode | undefined): [number, number, number] | undefined {
+  if (value?.kind === 'array') return toVector3(value.elements[0]);
+  return toVector3(value);
+}
+
+function toTimeSamples<T>(
+  attribute: AttributeSpec,
+  convert: (value: ValueNode) => T | undefined
+): TimeSamples<T> | undefined {
+  if (!attribute.timeSamples) return undefined;
+  const samples = new Map<number, T>();
+  for (const entry of attribute.timeSamples.entries) {
+    const value = convert(entry.value);
+    if (value !== undefined) {
+      samples.set(entry.time, value);
     }
-    i++;
   }
+  return samples;
+}
 
-  return { samples, endIndex: i };
+// Every number of a scalar, tuple or nested tuple (matrix4d) value, in order
+function toNumbers(value: ValueNode | undefined): number[] | undefined {
+  if (value?.kind === 'number') return [value.value];
+  if (value?.kind !== 'tuple') return undefined;
+  const numbers = value.elements.map(toNumbers);
+  return numbers.every((element) => element !== undefined) ? numbers.flat() : undefined;
 }
 
-// Parse reference/payload from metadata
-// Supports: references = @./path.usda@ or references = @./path.usda@</PrimPath>
-function parseAssetReference(metadata: string): UsdReference | null {
-  // Pattern: @path@</primPath> or just @path@
-  const match = metadata.match(/@([^@]+)@(?:<([^>]+)>)?/);
-  if (match) {
-    return {
-      assetPath: match[1],
-      primPath: match[2] || undefined,
-    };
+function toStringArray(value: ValueNode | undefined): string[] | undefined {
+  if (value?.kind !== 'array') return undefined;
+  return value.elements.map(toString).filter((element) => element !== undefined);
+}
+
+const LIST_OP_FIELDS: Record<ListOpKind | 'explicit', keyof ListOp<unknown>> = {
+  explicit: 'explicitItems',
+  prepend: 'prependedItems',
+  append: 'appendedItems',
+  add: 'appendedItems',
+  delete: 'deletedItems',
+  reorder: 'orderedItems',
+};
+
+// Collect every statement for a list-edited key into one list-op, e.g.
+// prepend references = [@a.usda@, @b.usda@</X>] and delete references = @c.usda@
+function toListOp<T>(
+  metadata: MetadataEntry[],
+  key: string,
+  convert: (value: ValueNode) => T | undefined
+): ListOp<T> | undefined {
+  let listOp: ListOp<T> | undefined;
+  for (const entry of metadata) {
+    if (entry.key !== key) continue;
+    const { value } = entry;
+    const isNone = value.kind === 'identifier' && value.value === 'None';
+    const values = value.kind === 'array' ? value.elements : isNone ? [] : [value];
+    const items = values.map(convert).filter((item): item is T => item !== undefined);
+    listOp = { ...listOp, [LIST_OP_FIELDS[entry.listOp ?? 'explicit']]: items };
   }
-  return null;
+  return listOp;
 }
 
-// Parse def statement with metadata (references, payloads, active)
-function parseDefStatement(line: string): {
-  type: string;
-  name: string;
-  active?: boolean;
-  references?: UsdReference[];
-  payloads?: UsdReference[];
-} | null {
-  // Match various def patterns:
-  // def Xform "Name" { }
-  // def "Name" ( references = @./file.usda@ ) { }
-  // def Xform "Name" ( references = @./file.usda@ ) { }
-  // def Xform "Name" ( active = false ) { }
-  const defMatch = line.match(/^def\s+(?:(\w+)\s+)?"([^"]+)"(?:\s*\(([^)]*)\))?/);
-  if (!defMatch) return null;
-
-  const [, primType, primName, metadata] = defMatch;
-  const result: {
-    type: string;
-    name: string;
-    active?: boolean;
-    references?: UsdReference[];
-    payloads?: UsdReference[];
-  } = {
-    type: primType || 'Xform',
-    name: primName,
+// @./file.usda@</Prim> (offset = 24; scale = 0.5), or </Prim> for an internal reference
+function toReference(value: ValueNode): UsdReference | undefined {
+  if (value.kind === 'path') return { assetPath: '', primPath: value.path, range: value.range };
+  if (value.kind !== 'asset') return undefined;
+  return { assetPath: value.path, primPath: value.primPath, layerOffset: toLayerOffset(value), range: value.range };
+}
+
+function toLayerOffset(value: AssetValue): LayerOffset | undefined {
+  return value.layerOffset && {
+    offset: value.layerOffset.offset ?? 0,
+    scale: value.layerOffset.scale ?? 1,
   };
+}
 
-  if (metadata) {
-    // Parse active flag
-    const activeMatch = metadata.match(/active\s*=\s*(true|false)/);
-    if (activeMatch) {
-      result.active = activeMatch[1] === 'true';
-    }
+// </_class_Ball>
+function toPrimPath(value: ValueNode): string | undefined {
+  return value.kind === 'path' ? value.path : undefined;
+}
 
-    // Parse references
-    const referencesMatch = metadata.match(/references\s*=\s*(@[^@]+@(?:<[^>]+>)?)/);
-    if (referencesMatch) {
-      const ref = parseAssetReference(referencesMatch[1]);
-      if (ref) {
-        result.references = [ref];
-      }
-    }
+// --- Layer metadata ---
 
-    // Parse payloads
-    const payloadMatch = metadata.match(/payload\s*=\s*(@[^@]+@(?:<[^>]+>)?)/);
-    if (payloadMatch) {
-      const payload = parseAssetReference(payloadMatch[1]);
-      if (payload) {
-        result.payloads = [payload];
-      }
-    }
-  }
+function toString(value: ValueNode | undefined): string | undefined {
+  return value?.kind === 'string' || value?.kind === 'identifier' ? value.value : undefined;
+}
+
+export function parseLayerMetadata(layer: LayerSpec): LayerMetadata {
+  const number = (key: string) => toNumber(findMetadata(layer.metadata, key)?.value);
+  const string = (key: string) => toString(findMetadata(layer.metadata, key)?.value);
+
+  const upAxis = string('upAxis');
+  return {
+    defaultPrim: string('defaultPrim'),
+    startTimeCode: number('startTimeCode'),
+    endTimeCode: number('endTimeCode'),
+    timeCodesPerSecond: number('timeCodesPerSecond'),
+    framesPerSecond: number('framesPerSecond'),
+    upAxis: upAxis === 'Y' || upAxis === 'Z' ? upAxis : undefined,
+    metersPerUnit: number('metersPerUnit'),
+    doc: string('doc'),
+    subLayers: toSubLayers(findMetadata(layer.metadata, 'subLayers')),
+  };
+}
 
-  return result;
+function toSubLayers(entry: MetadataEntry | undefined): UsdSubLayer[] | undefined {
+  if (entry?.value.kind !== 'array') return undefined;
+  return entry.value.elements
+    .filter((value): value is AssetValue => value.kind === 'asset')
+    .map((value) => ({
+      assetPath: value.path,
+      layerOffset: toLayerOffset(value),
+      range: value.range,
+    }));
 }
 
-// Parse multiline metadata block starting from a given line index
-function parseMultilineMetadata(
-  lines: string[],
-  startIndex: number
-): { metadata: string; endIndex: number } {
-  let metadata = '';
-  let parenDepth = 0;
-  let i = startIndex;
+// --- ParsedPrim derivation ---
 
-  while (i < lines.length) {
-    const line = lines[i];
-    for (const char of line) {
-      if (char === '(') parenDepth++;
-      else if (char === ')') parenDepth--;
+function getAttribute(spec: PrimSpec | VariantSpec, name: string): AttributeSpec | undefined {
+  const property = findProperty(spec, name);
+  return property?.kind === 'attribute' ? property : undefined;
+}
+
+const INTERPOLATIONS = new Set<string>(['constant', 'uniform', 'varying', 'vertex', 'faceVarying']);
+
+// interpolation = "faceVarying" in the attribute's metadata
+function getInterpolation(attribute: AttributeSpec): PrimvarInterpolation | undefined {
+  const interpolation = toString(findMetadata(attribute.metadata, 'interpolation')?.value);
+  return interpolation && INTERPOLATIONS.has(interpolation)
+    ? (interpolation as PrimvarInterpolation)
+    : undefined;
+}
+
+// variants = { string modelingVariant = "high" }
+function toVariantSelections(entry: MetadataEntry | undefined): Record<string, string> | undefined {
+  if (entry?.value.kind !== 'dictionary') return undefined;
+  const selections: Record<string, string> = {};
+  for (const selection of entry.value.entries) {
+    const variant = toString(selection.value);
+    if (variant !== undefined) {
+      selections[selection.key] = variant;
     }
-    metadata += line + '\n';
-    if (parenDepth === 0) break;
-    i++;
   }
+  return selections;
+}
 
-  return { metadata, endIndex: i };
+function buildVariantSets(specs: VariantSetSpec[], primName: string): ParsedVariantSet[] | undefined {
+  if (specs.length === 0) return undefined;
+  return specs.map((spec) => ({
+    name: spec.name,
+    variants: new Map(spec.variants.map((variant) => [variant.name, buildPrim(variant, primName)])),
+  }));
 }
 
-export function parseUsda(content: string): ParsedPrim[] {
-  const prims: ParsedPrim[] = [];
-  const stack: { prim: ParsedPrim; indent: number }[] = [];
+// A variant's opinions are built as a typeless over named after the prim that owns the variant set
+function buildPrim(spec: PrimSpec | VariantSpec, name = spec.name): ParsedPrim {
+  const activeEntry = findMetadata(spec.metadata, 'active');
+  const typeName = spec.kind === 'prim' ? spec.typeName : undefined;
+
+  const prim: ParsedPrim = {
+    type: (typeName || 'Xform') as ParsedPrim['type'],
+    typeName,
+    specifier: spec.kind === 'prim' ? spec.specifier : 'over',
+    name,
+    active: activeEntry?.value.kind === 'identifier' ? activeEntry.value.value === 'true' : undefined,
+    children: buildPrims(spec.children),
+    references: toListOp(spec.metadata, 'references', toReference),
+    payloads: toListOp(spec.metadata, 'payload', toReference),
+    inherits: toListOp(spec.metadata, 'inherits', toPrimPath),
+    specializes: toListOp(spec.metadata, 'specializes', toPrimPath),
+    variantSets: buildVariantSets(spec.variantSets, name),
+    variantSelections: toVariantSelections(findMetadata(spec.metadata, 'variants')),
+    primSpecs: [{ spec }],
+    properties: spec.properties.length
+      ? Object.fromEntries(spec.properties.map((property) => [property.name, { spec: property }]))
+      : undefined,
+    primMetadata: spec.metadata.length
+      ? Object.fromEntries(spec.metadata.map((entry) => [entry.key, { spec: entry }]))
+      : undefined,
+  };
 
-  const lines = content.split('\n');
+  const radius = getAttribute(spec, 'radius');
+  if (radius) {
+    prim.radius = toNumber(radius.defaultValue);
+    prim.radiusTimeSamples = toTimeSamples(radius, toNumber);
+  }
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trimStart();
-    const indent = line.length - trimmed.length;
+  const size = getAttribute(spec, 'size');
+  if (size) {
+    prim.size = toNumber(size.defaultValue);
+    prim.sizeTimeSamples = toTimeSamples(size, toNumber);
+  }
 
-    // Check if this is a def statement with multiline metadata
-    const defStartMatch = trimmed.match(/^def\s+(?:(\w+)\s+)?"([^"]+)"\s*\(/);
-    if (defStartMatch && !trimmed.includes(')')) {
-      // Multiline metadata - collect all lines until closing paren
-      const { metadata, endIndex } = parseMultilineMetadata(lines, i);
-      i = endIndex;
+  const height = getAttribute(spec, 'height');
+  if (height) {
+    prim.height = toNumber(height.defaultValue);
+    prim.heightTimeSamples = toTimeSamples(height, toNumber);
+  }
 
-      const defInfo = parseDefStatement(metadata.replace(/\n/g, ' '));
-      if (defInfo) {
-        const newPrim: ParsedPrim = {
-          type: defInfo.type as ParsedPrim['type'],
-          name: defInfo.name,
-          active: defInfo.active,
-          children: [],
-          references: defInfo.references,
-          payloads: defInfo.payloads,
-        };
+  const color = getAttribute(spec, 'primvars:displayColor');
+  if (color) {
+    prim.color = toColor(color.defaultValue);
+    prim.colorTimeSamples = toTimeSamples(color, toColor);
+  }
 
-        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
-          stack.pop();
-        }
+  buildXformOps(spec, prim);
+  buildShadeAttributes(spec, prim);
+  buildMeshAttributes(spec, prim);
+  buildCurveAttributes(spec, prim);
+  buildCameraAttributes(spec, prim);
 
-        if (stack.length > 0) {
-          stack[stack.length - 1].prim.children?.push(newPrim);
-        } else {
-          prims.push(newPrim);
-        }
+  return prim;
+}
 
-        stack.push({ prim: newPrim, indent });
-      }
-      continue;
-    }
+function buildXformOps(spec: PrimSpec | VariantSpec, prim: ParsedPrim) {
+  for (const property of spec.properties) {
+    if (property.kind !== 'attribute' || !property.name.startsWith('xformOp:')) continue;
+    prim.xformOps ??= {};
+    prim.xformOps[property.name] = {
+      value: toNumbers(property.defaultValue),
+      timeSamples: toTimeSamples(property, toNumbers),
+      source: { spec: property },
+    };
+  }
 
-    // Match def statements with optional metadata (single line)
-    const defInfo = parseDefStatement(trimmed);
-    if (defInfo) {
-      const newPrim: ParsedPrim = {
-        type: defInfo.type as ParsedPrim['type'],
-        name: defInfo.name,
-        active: defInfo.active,
-        children: [],
-        references: defInfo.references,
-        payloads: defInfo.payloads,
-      };
-
-      // Pop stack to find parent
-      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
-        stack.pop();
-      }
+  const xformOpOrder = getAttribute(spec, 'xformOpOrder');
+  prim.xformOpOrder = toStringArray(xformOpOrder?.defaultValue);
+  prim.xformOpOrderSource = prim.xformOpOrder && xformOpOrder && { spec: xformOpOrder };
+}
 
-      if (stack.length > 0) {
-        stack[stack.length - 1].prim.children?.push(newPrim);
-      } else {
-        prims.push(newPrim);
-      }
+function toShadeAttribute(attribute: AttributeSpec): ShadeAttribute {
+  const value = attribute.defaultValue;
+  const connection = attribute.connections?.kind === 'array' ? attribute.connections.elements[0] : attribute.connections;
+  return {
+    typeName: attribute.typeName,
+    value: toNumbers(value),
+    token: toString(value),
+    assetPath: value?.kind === 'asset' ? value.path : undefined,
+    assetRange: value?.kind === 'asset' ? value.range : undefined,
+    connection: connection && toPrimPath(connection),
+  };
+}
 
-      stack.push({ prim: newPrim, indent });
+function buildShadeAttributes(spec: PrimSpec | VariantSpec, prim: ParsedPrim) {
+  for (const property of spec.properties) {
+    if (property.kind === 'relationship') {
+      if (property.name === 'material:binding' && property.targets) {
+        const target = property.targets.kind === 'array' ? property.targets.elements[0] : property.targets;
+        prim.materialBinding = target && toPrimPath(target);
+      }
       continue;
     }
 
-    // Parse attributes for current prim
-    if (stack.length > 0) {
-      const currentPrim = stack[stack.length - 1].prim;
-
-      // Radius with timeSamples
-      const radiusTimeSamplesMatch = trimmed.match(/(?:double|float)\s+radius\.timeSamples\s*=\s*\{/);
-      if (radiusTimeSamplesMatch) {
-        const { samples, endIndex } = parseTimeSamplesScalar(content, i + 1);
-        currentPrim.radiusTimeSamples = samples;
-        i = endIndex;
-        continue;
-      }
+    const [namespace, ...name] = property.name.split(':');
+    if (namespace === 'inputs' && name.length) {
+      prim.inputs ??= {};
+      prim.inputs[name.join(':')] = toShadeAttribute(property);
+    } else if (namespace === 'outputs' && name.length) {
+      prim.outputs ??= {};
+      prim.outputs[name.join(':')] = toShadeAttribute(property);
+    }
+  }
 
-      // Radius
-      const radiusMatch = trimmed.match(/(?:double|float)\s+radius\s*=\s*([\d.]+)/);
-      if (radiusMatch) {
-        currentPrim.radius = parseFloat(radiusMatch[1]);
-      }
+  prim.shaderId = toString(getAttribute(spec, 'info:id')?.defaultValue);
+}
 
-      // Size with timeSamples
-      const sizeTimeSamplesMatch = trimmed.match(/(?:double|float)\s+size\.timeSamples\s*=\s*\{/);
-      if (sizeTimeSamplesMatch) {
-        const { samples, endIndex } = parseTimeSamplesScalar(content, i + 1);
-        currentPrim.sizeTimeSamples = samples;
-        i = endIndex;
-        continue;
-      }
+function buildMeshAttributes(spec: PrimSpec | VariantSpec, prim: ParsedPrim) {
+  const points = getAttribute(spec, 'points');
+  if (points) {
+    prim.points = toVector3Array(points.defaultValue);
+    prim.pointsTimeSamples = toTimeSamples(points, toVector3Array);
+  }
 
-      // Size
-      const sizeMatch = trimmed.match(/(?:double|float)\s+size\s*=\s*([\d.]+)/);
-      if (sizeMatch) {
-        currentPrim.size = parseFloat(sizeMatch[1]);
-      }
+  prim.faceVertexCounts = toNumberArray(getAttribute(spec, 'faceVertexCounts')?.defaultValue);
+  prim.faceVertexIndices = toNumberArray(getAttribute(spec, 'faceVertexIndices')?.defaultValue);
 
-      // Height with timeSamples
-      const heightTimeSamplesMatch = trimmed.match(/(?:double|float)\s+height\.timeSamples\s*=\s*\{/);
-      if (heightTimeSamplesMatch) {
-        const { samples, endIndex } = parseTimeSamplesScalar(content, i + 1);
-        currentPrim.heightTimeSamples = samples;
-        i = endIndex;
-        continue;
-      }
+  // primvars:normals takes precedence over the normals attribute
+  const normals = getAttribute(spec, 'primvars:normals') ?? getAttribute(spec, 'normals');
+  if (normals) {
+    prim.normals = toVector3Array(normals.defaultValue);
+    prim.normalsInterpolation = getInterpolation(normals);
+  }
 
-      // Height
-      const heightMatch = trimmed.match(/(?:double|float)\s+height\s*=\s*([\d.]+)/);
-      if (heightMatch) {
-        currentPrim.height = parseFloat(heightMatch[1]);
-      }
+  for (const property of spec.properties) {
+    const name = /^primvars:(.+)$/.exec(property.name)?.[1];
+    if (property.kind !== 'attribute' || !property.isArray || !name || name.endsWith(':indices')) continue;
+    if (!/^(texCoord2[dfh]|float2|double2|half2)$/.test(property.typeName)) continue;
+    prim.texCoords ??= {};
+    prim.texCoords[name] = {
+      values: toVector2Array(property.defaultValue) ?? [],
+      indices: toNumberArray(getAttribute(spec, `primvars:${name}:indices`)?.defaultValue),
+      interpolation: getInterpolation(property),
+    };
+  }
 
-      // Color
-      const colorMatch = trimmed.match(/color3f\[\]\s+primvars:displayColor\s*=\s*\[\s*\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*\)\s*\]/);
-      if (colorMatch) {
-        currentPrim.color = [
-          parseFloat(colorMatch[1]),
-          parseFloat(colorMatch[2]),
-          parseFloat(colorMatch[3]),
-        ];
-      }
+  const orientation = toString(getAttribute(spec, 'orientation')?.defaultValue);
+  if (orientation === 'rightHanded' || orientation === 'leftHanded') {
+    prim.orientation = orientation;
+  }
+  prim.doubleSided = toBoolean(getAttribute(spec, 'doubleSided')?.defaultValue);
+  prim.subdivisionScheme = toString(getAttribute(spec, 'subdivisionScheme')?.defaultValue);
+}
 
-      // Translation with timeSamples
-      const translateTimeSamplesMatch = trimmed.match(/double3\s+xformOp:translate\.timeSamples\s*=\s*\{/);
-      if (translateTimeSamplesMatch) {
-        const { samples, endIndex } = parseTimeSamplesVector3(content, i + 1);
-        currentPrim.positionTimeSamples = samples;
-        i = endIndex;
-        continue;
-      }
+// Returns the token when it is one of the allowed values
+function toToken<T extends string>(value: ValueNode | undefined, allowed: readonly T[]): T | undefined {
+  const token = toString(value);
+  return allowed.find((candidate) => candidate === token);
+}
 
-      // Translation/Position
-      const translateMatch = trimmed.match(/double3\s+xformOp:translate\s*=\s*\(\s*([\d.-]+)\s*,\s*([\d.-]+)\s*,\s*([\d.-]+)\s*\)/);
-      if (translateMatch) {
-        currentPrim.position = [
-          parseFloat(translateMatch[1]),
-          parseFloat(translateMatch[2]),
-          parseFloat(translateMatch[3]),
-        ];
-      }
+function buildCurveAttributes(spec: PrimSpec | VariantSpec, prim: ParsedPrim) {
+  prim.axis = toToken(getAttribute(spec, 'axis')?.defaultValue, ['X', 'Y', 'Z'] as const);
+  prim.width = toNumber(getAttribute(spec, 'width')?.defaultValue);
+  prim.length = toNumber(getAttribute(spec, 'length')?.defaultValue);
 
-      // Rotation with timeSamples
-      const rotateTimeSamplesMatch = trimmed.match(/float3\s+xformOp:rotateXYZ\.timeSamples\s*=\s*\{/);
-      if (rotateTimeSamplesMatch) {
-        const { samples, endIndex } = parseTimeSamplesVector3(content, i + 1, true);
-        currentPrim.rotationTimeSamples = samples;
-        i = endIndex;
-        continue;
-      }
+  const widths = getAttribute(spec, 'widths');
+  if (widths) {
+    prim.widths = toNumberArray(widths.defaultValue);
+    prim.widthsInterpolation = getInterpolation(widths);
+  }
 
-      // Rotation
-      const rotateMatch = trimmed.match(/float3\s+xformOp:rotateXYZ\s*=\s*\(\s*([\d.-]+)\s*,\s*([\d.-]+)\s*,\s*([\d.-]+)\s*\)/);
-      if (rotateMatch) {
-        currentPrim.rotation = [
-          THREE.MathUtils.degToRad(parseFloat(rotateMatch[1])),
-          THREE.MathUtils.degToRad(parseFloat(rotateMatch[2])),
-          THREE.MathUtils.degToRad(parseFloat(rotateMatch[3])),
-        ];
-      }
+  prim.curveVertexCounts = toNumberArray(getAttribute(spec, 'curveVertexCounts')?.defaultValue);
+  prim.curveType = toToken(getAttribute(spec, 'type')?.defaultValue, ['linear', 'cubic'] as const);
+  prim.curveBasis = toToken(getAttribute(spec, 'basis')?.defaultValue, [
+    'bezier',
+    'bspline',
+    'catmullRom',
+  ] as const);
+  prim.curveWrap = toToken(getAttribute(spec, 'wrap')?.defaultValue, [
+    'nonperiodic',
+    'periodic',
+    'pinned',
+  ] as const);
+}
 
-      // Scale with timeSamples
-      const scaleTimeSamplesMatch = trimmed.match(/float3\s+xformOp:scale\.timeSamples\s*=\s*\{/);
-      if (scaleTimeSamplesMatch) {
-        const { samples, endIndex } = parseTimeSamplesVector3(content, i + 1);
-        currentPrim.scaleTimeSamples = samples;
-        i = endIndex;
-        continue;
-      }
+function buildCameraAttributes(spec: PrimSpec | VariantSpec, prim: ParsedPrim) {
+  const focalLength = getAttribute(spec, 'focalLength');
+  if (focalLength) {
+    prim.focalLength = toNumber(focalLength.defaultValue);
+    prim.focalLengthTimeSamples = toTimeSamples(focalLength, toNumber);
+  }
 
-      // Scale
-      const scaleMatch = trimmed.match(/float3\s+xformOp:scale\s*=\s*\(\s*([\d.-]+)\s*,\s*([\d.-]+)\s*,\s*([\d.-]+)\s*\)/);
-      if (scaleMatch) {
-        currentPrim.scale = [
-          parseFloat(scaleMatch[1]),
-          parseFloat(scaleMatch[2]),
-          parseFloat(scaleMatch[3]),
-        ];
-      }
-    }
+  prim.horizontalAperture = toNumber(getAttribute(spec, 'horizontalAperture')?.defaultValue);
+  prim.verticalAperture = toNumber(getAttribute(spec, 'verticalAperture')?.defaultValue);
+  const clippingRange = toNumbers(getAttribute(spec, 'clippingRange')?.defaultValue);
+  if (clippingRange?.length === 2) {
+    prim.clippingRange = [clippingRange[0], clippingRange[1]];
   }
+  prim.projection = toToken(getAttribute(spec, 'projection')?.defaultValue, [
+    'perspective',
+    'orthographic',
+  ] as const);
+}
+
+function buildPrims(specs: PrimSpec[]): ParsedPrim[] {
+  return specs.map((spec) => buildPrim(spec));
+}
+
+export interface ParsedUsda {
+  prims: ParsedPrim[];
+  metadata: LayerMetadata;
+  diagnostics: UsdaDiagnostic[];
+}
 
-  return prims;
+export function parseUsda(content: string): ParsedUsda {
+  const { layer, diagnostics } = parseLayer(content);
+  return { prims: buildPrims(layer.prims), metadata: parseLayerMetadata(layer), diagnostics };
 }
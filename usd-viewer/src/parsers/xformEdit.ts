@@ -0,0 +1,258 @@
+import * as THREE from 'three';
+import { IDENTITY_LAYER_OFFSET, toLocalTime } from './layerOffset';
+import type { OpinionSource, ParsedPrim, XformOpAttribute } from './usdaParser';
+import type { AttributeSpec } from './usdaAst';
+import {
+  applyTextEdits,
+  formatNumber,
+  formatNumbers,
+  lineIndent,
+  lineStartOffset,
+  primBodyStart,
+  setAttributeValue,
+  type LayerEditResult,
+  type TextEdit,
+} from './layerEdit';
+import { RESET_XFORM_STACK, computeLocalTransform, parseXformOpName, sampleXformOp } from './xformOps';
+import type { VirtualFile } from '../types/virtualFileSystem';
+
+export type TransformMode = 'translate' | 'rotate' | 'scale';
+
+const PIVOT = 'xformOp:translate:pivot';
+const INVERSE_PIVOT = `!invert!${PIVOT}`;
+
+// The type an op is declared with when this editor adds it
+function opTypeName(opType: string): string {
+  if (opType === 'translate') return 'double3';
+  if (opType === 'orient') return 'quatf';
+  if (opType === 'transform') return 'matrix4d';
+  return /^rotate[XYZ]$/.test(opType) ? 'float' : 'float3';
+}
+
+// Position of each op in the common translate / pivot / rotate / scale / inverse pivot stack
+function stackRank(entry: string): number | undefined {
+  if (entry === INVERSE_PIVOT) return 5;
+  const name = parseXformOpName(entry);
+  if (!name || name.inverse) return undefined;
+  if (name.opType === 'translate') {
+    if (!name.suffix) return 1;
+    return name.attributeName === PIVOT ? 2 : undefined;
+  }
+  if (name.suffix) return undefined;
+  if (name.opType === 'orient' || /^rotate([XYZ]|[XYZ]{3})$/.test(name.opType)) return 3;
+  if (name.opType === 'scale') return 4;
+  return undefined;
+}
+
+function formatValue(opType: string, value: number[]): string {
+  if (opType === 'transform') {
+    const rows = [0, 4, 8, 12].map((row) => `(${value.slice(row, row + 4).map(formatNumber).join(', ')})`);
+    return `( ${rows.join(', ')} )`;
+  }
+  return formatNumbers(value);
+}
+
+// Write an op's value, as a key when the op is animated
+function writeOpValue(content: string, op: XformOpAttribute, spec: AttributeSpec, text: string, stageFrame: number) {
+  const animated = spec.timeSamples && op.timeSamples?.size;
+  const localTime = animated ? toLocalTime(op.layerOffset ?? IDENTITY_LAYER_OFFSET, stageFrame) : undefined;
+  return setAttributeValue(content, spec, text, localTime);
+}
+
+function formatOpOrder(order: string[]): string {
+  return `[${order.map((entry) => `"${entry}"`).join(', ')}]`;
+}
+
+// Insert an op into xformOpOrder at its place in the common stack
+function insertIntoOrder(order: string[], entry: string): string[] {
+  const rank = stackRank(entry) ?? 0;
+  const index = order.findIndex((existing) => existing !== RESET_XFORM_STACK && (stackRank(existing) ?? 0) > rank);
+  return index < 0 ? [...order, entry] : [...order.slice(0, index), entry, ...order.slice(index)];
+}
+
+type Edits = Map<string, TextEdit[]>;
+
+function addEdit(edits: Edits, layerPath: string, edit: TextEdit) {
+  edits.set(layerPath, [...(edits.get(layerPath) ?? []), edit]);
+}
+
+function layerContent(files: Map<string, VirtualFile>, source: OpinionSource<unknown> | undefined) {
+  return source?.layerPath !== undefined ? files.get(source.layerPath)?.content : undefined;
+}
+
+// Author a new op: a declaration next to xformOpOrder, which lists it, or a new
+// xformOpOrder in the prim's strongest spec
+function addOp(
+  prim: ParsedPrim,
+  attributeName: string,
+  opType: string,
+  text: string,
+  files: Map<string, VirtualFile>,
+  edits: Edits
+): string | undefined {
+  const declaration = `${opTypeName(opType)} ${attributeName} = ${text}`;
+  const listed = prim.xformOpOrder?.includes(attributeName);
+  const order = listed ? prim.xformOpOrder! : insertIntoOrder(prim.xformOpOrder ?? [], attributeName);
+
+  const orderSource = prim.xformOpOrderSource;
+  const orderContent = layerContent(files, orderSource);
+  if (orderSource && orderContent !== undefined) {
+    // The op goes just before xformOpOrder; one sharing its line, as in a
+    // one-line prim, gets both onto lines of their own in the prim's body
+    const orderStart = orderSource.spec.range.start.offset;
+    const lineStart = lineStartOffset(orderContent, orderStart);
+    const before = orderContent.slice(lineStart, orderStart);
+    const ownLine = before.trim() === '';
+    const indent = `${lineIndent(orderContent, lineStart)}${ownLine ? '' : '    '}`;
+    addEdit(edits, orderSource.layerPath!, {
+      start: ownLine ? orderStart : lineStart + before.trimEnd().length,
+      end: orderStart,
+      text: ownLine ? `${declaration}\n${indent}` : `\n${indent}${declaration}\n${indent}`,
+    });
+    const value = orderSource.spec.defaultValue!;
+    if (!listed) {
+      addEdit(edits, orderSource.layerPath!, {
+        start: value.range.start.offset,
+        end: value.range.end.offset,
+        text: formatOpOrder(order),
+      });
+    }
+    return undefined;
+  }
+
+  const primSource = prim.primSpecs?.[0];
+  const content = layerContent(files, primSource);
+  if (!primSource || content === undefined) return `The layer defining ${prim.name} is not in the workspace`;
+  const lines = [declaration, `uniform token[] xformOpOrder = ${formatOpOrder(order)}`];
+  const lastProperty = primSource.spec.properties[primSource.spec.properties.length - 1];
+  if (lastProperty) {
+    const end = lastProperty.range.end.offset;
+    const indent = lineIndent(content, end);
+    addEdit(edits, primSource.layerPath!, { start: end, end, text: lines.map((line) => `\n${indent}${line}`).join('') });
+    return undefined;
+  }
+  const bodyStart = primBodyStart(content, primSource.spec);
+  if (bodyStart === undefined) return `Could not find the body of ${prim.name}`;
+  const primIndent = lineIndent(content, primSource.spec.range.start.offset);
+  // A body that closes on the line it opens, as in def Sphere "S" {}, gets its } on a line of its own
+  const closingBrace = primSource.spec.range.end.offset - 1;
+  const closingLine = content.slice(bodyStart, closingBrace).includes('\n') ? '' : `\n${primIndent}`;
+  addEdit(edits, primSource.layerPath!, {
+    start: bodyStart,
+    end: bodyStart,
+    text: lines.map((line) => `\n${primIndent}    ${line}`).join('') + closingLine,
+  });
+  return undefined;
+}
+
+// Write one op: into the layer authoring its strongest opinion, or as a new op
+function setOp(
+  prim: ParsedPrim,
+  attributeName: string,
+  opType: string,
+  value: number[],
+  stageFrame: number,
+  files: Map<string, VirtualFile>,
+  edits: Edits
+): string | undefined {
+  const text = formatValue(opType, value);
+  const op = prim.xformOps?.[attributeName];
+  if (op && !activeOps(prim).includes(attributeName)) {
+    return `${attributeName} is authored on ${prim.name} but not listed in xformOpOrder`;
+  }
+  const content = layerContent(files, op?.source);
+  if (op?.source && content !== undefined) {
+    addEdit(edits, op.source.layerPath!, writeOpValue(content, op, op.source.spec, text, stageFrame));
+    return undefined;
+  }
+  if (op?.source) return `The layer authoring ${attributeName} is not in the workspace`;
+  return addOp(prim, attributeName, opType, text, files, edits);
+}
+
+// The ops after the last !resetXformStack!
+function activeOps(prim: ParsedPrim): string[] {
+  const order = prim.xformOpOrder ?? [];
+  return order.slice(order.lastIndexOf(RESET_XFORM_STACK) + 1);
+}
+
+function pivotOf(prim: ParsedPrim, stageFrame: number): THREE.Vector3 {
+  const ops = activeOps(prim);
+  const op = prim.xformOps?.[PIVOT];
+  const value = ops.includes(PIVOT) && ops.includes(INVERSE_PIVOT) && op && sampleXformOp(op, 'translate', stageFrame);
+  return value ? new THREE.Vector3(value[0] ?? 0, value[1] ?? 0, value[2] ?? 0) : new THREE.Vector3();
+}
+
+// The frame the gizmo manipulates, in the prim's parent space: the prim's local
+// transform moved to its pivot, so rotation and scale happen about the pivot
+export function getPivotFrame(prim: ParsedPrim, stageFrame: number): THREE.Matrix4 {
+  const { matrix } = computeLocalTransform(prim, stageFrame);
+  return matrix.multiply(new THREE.Matrix4().makeTranslation(pivotOf(prim, stageFrame)));
+}
+
+// Rotation op values for a quaternion: degrees per axis, or (w, x, y, z) for orient
+function rotationValue(opType: string, quaternion: THREE.Quaternion): number[] {
+  if (opType === 'orient') return [quaternion.w, quaternion.x, quaternion.y, quaternion.z];
+  const degrees = (radians: number) => THREE.MathUtils.radToDeg(radians);
+  const singleAxis = /^rotate([XYZ])$/.exec(opType);
+  if (singleAxis) {
+    // The twist about the op's axis; rotation about other axes cannot be kept
+    const component = quaternion[singleAxis[1].toLowerCase() as 'x' | 'y' | 'z'];
+    return [degrees(2 * Math.atan2(component, quaternion.w))];
+  }
+  const order = opType.slice('rotate'.length).split('').reverse().join('') as THREE.EulerOrder;
+  const euler = new THREE.Euler().setFromQuaternion(quaternion, order);
+  return [degrees(euler.x), degrees(euler.y), degrees(euler.z)];
+}
+
+// Write a gizmo edit back into the layers' text. pivotFrame is the edited
+// pivot frame (see getPivotFrame); only the ops the mode changes are written.
+export function editTransform(
+  prim: ParsedPrim,
+  pivotFrame: THREE.Matrix4,
+  mode: TransformMode,
+  stageFrame: number,
+  files: Map<string, VirtualFile>
+): LayerEditResult {
+  const ops = activeOps(prim);
+  const edits: Edits = new Map();
+  const fail = (error: string): LayerEditResult => ({ contents: new Map(), error });
+
+  let error: string | undefined;
+  const single = ops.length === 1 ? parseXformOpName(ops[0]) : undefined;
+  if (single?.opType === 'transform' && !single.inverse) {
+    error = setOp(prim, single.attributeName, 'transform', pivotFrame.toArray(), stageFrame, files, edits);
+  } else {
+    const ranks = ops.map(stackRank);
+    const isCommonStack =
+      ranks.every((rank, index) => rank !== undefined && (index === 0 || rank > ranks[index - 1]!)) &&
+      ops.includes(PIVOT) === ops.includes(INVERSE_PIVOT);
+    if (!isCommonStack) {
+      return fail(`Cannot edit ${prim.name}: xformOpOrder is not a translate / rotate / scale stack`);
+    }
+
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    pivotFrame.decompose(position, quaternion, scale);
+
+    if (mode === 'translate') {
+      const translate = position.sub(pivotOf(prim, stageFrame));
+      error = setOp(prim, 'xformOp:translate', 'translate', translate.toArray(), stageFrame, files, edits);
+    } else if (mode === 'rotate') {
+      const rotation = ops.map((entry) => parseXformOpName(entry)!).find((name) => stackRank(name.attributeName) === 3);
+      const opType = rotation?.opType ?? 'rotateXYZ';
+      const attributeName = rotation?.attributeName ?? 'xformOp:rotateXYZ';
+      error = setOp(prim, attributeName, opType, rotationValue(opType, quaternion), stageFrame, files, edits);
+    } else {
+      error = setOp(prim, 'xformOp:scale', 'scale', scale.toArray(), stageFrame, files, edits);
+    }
+  }
+  if (error) return fail(error);
+
+  const contents = new Map<string, string>();
+  for (const [layerPath, layerEdits] of edits) {
+    const content = files.get(layerPath)?.content;
+    if (content !== undefined) contents.set(layerPath, applyTextEdits(content, layerEdits));
+  }
+  return { contents };
+}
@@ -0,0 +1,136 @@
+import * as THREE from 'three';
+import { IDENTITY_LAYER_OFFSET, toLocalTime } from './layerOffset';
+import type { ParsedPrim, XformOpAttribute } from './usdaParser';
+
+// Listed first in xformOpOrder, the prim ignores its parents' transforms
+export const RESET_XFORM_STACK = '!resetXformStack!';
+
+// Prefix of ops applied as the inverse of an attribute, e.g. of a pivot
+const INVERT_PREFIX = '!invert!';
+
+export interface XformOpName {
+  attributeName: string; // e.g. "xformOp:translate:pivot"
+  opType: string;        // e.g. "translate"
+  suffix?: string;       // e.g. "pivot"
+  inverse: boolean;
+}
+
+// Split an xformOpOrder entry such as "!invert!xformOp:translate:pivot"
+export function parseXformOpName(entry: string): XformOpName | undefined {
+  const inverse = entry.startsWith(INVERT_PREFIX);
+  const attributeName = inverse ? entry.slice(INVERT_PREFIX.length) : entry;
+  const [namespace, opType, ...suffix] = attributeName.split(':');
+  if (namespace !== 'xformOp' || !opType) return undefined;
+  return { attributeName, opType, suffix: suffix.length ? suffix.join(':') : undefined, inverse };
+}
+
+function lerp(v0: number[], v1: number[], t: number): number[] {
+  return v0.map((value, index) => value + (v1[index] - value) * t);
+}
+
+// Orientations blend along the shortest arc rather than per component
+function slerp(v0: number[], v1: number[], t: number): number[] {
+  const [w0, x0, y0, z0] = v0;
+  const [w1, x1, y1, z1] = v1;
+  const q = new THREE.Quaternion(x0, y0, z0, w0).slerp(new THREE.Quaternion(x1, y1, z1, w1), t);
+  return [q.w, q.x, q.y, q.z];
+}
+
+// The op's value at a stage frame; time samples win over the default value
+export function sampleXformOp(
+  op: XformOpAttribute,
+  opType: string,
+  stageFrame: number
+): number[] | undefined {
+  const samples = op.timeSamples;
+  if (!samples?.size) return op.value;
+
+  const frame = toLocalTime(op.layerOffset ?? IDENTITY_LAYER_OFFSET, stageFrame);
+  const times = Array.from(samples.keys()).sort((a, b) => a - b);
+  if (frame <= times[0]) return samples.get(times[0])!;
+  if (frame >= times[times.length - 1]) return samples.get(times[times.length - 1])!;
+
+  for (let i = 0; i < times.length - 1; i++) {
+    if (frame >= times[i] && frame <= times[i + 1]) {
+      const t = (frame - times[i]) / (times[i + 1] - times[i]);
+      const v0 = samples.get(times[i])!;
+      const v1 = samples.get(times[i + 1])!;
+      if (v0.length !== v1.length) return v0;
+      return opType === 'orient' ? slerp(v0, v1, t) : lerp(v0, v1, t);
+    }
+  }
+  return samples.get(times[0])!;
+}
+
+// USD applies the axes of rotateXYZ in the order written (X first), which is
+// three.js' Euler order reversed. Angles stay (x, y, z) in degrees.
+function rotationMatrix(opType: string, value: number[]): THREE.Matrix4 | undefined {
+  const degrees = (index: number) => THREE.MathUtils.degToRad(value[index] ?? 0);
+  const singleAxis = /^rotate([XYZ])$/.exec(opType);
+  if (singleAxis) {
+    const axis = { X: new THREE.Vector3(1, 0, 0), Y: new THREE.Vector3(0, 1, 0), Z: new THREE.Vector3(0, 0, 1) };
+    return new THREE.Matrix4().makeRotationAxis(axis[singleAxis[1] as 'X' | 'Y' | 'Z'], degrees(0));
+  }
+
+  const threeAxes = /^rotate([XYZ]{3})$/.exec(opType);
+  if (!threeAxes || new Set(threeAxes[1]).size !== 3) return undefined;
+  const order = threeAxes[1].split('').reverse().join('') as THREE.EulerOrder;
+  return new THREE.Matrix4().makeRotationFromEuler(new THREE.Euler(degrees(0), degrees(1), degrees(2), order));
+}
+
+// Matrix of a single op in three.js' column-vector convention
+function opMatrix(opType: string, value: number[]): THREE.Matrix4 | undefined {
+  switch (opType) {
+    case 'translate':
+      return new THREE.Matrix4().makeTranslation(value[0] ?? 0, value[1] ?? 0, value[2] ?? 0);
+    case 'scale':
+      return new THREE.Matrix4().makeScale(value[0] ?? 1, value[1] ?? 1, value[2] ?? 1);
+    case 'orient': {
+      const [w, x, y, z] = value;
+      return new THREE.Matrix4().makeRotationFromQuaternion(new THREE.Quaternion(x, y, z, w).normalize());
+    }
+    case 'transform':
+      // USD matrices are row-major with row vectors, which reads as column-major
+      // with column vectors: the same 16 numbers in order
+      return value.length === 16 ? new THREE.Matrix4().fromArray(value) : undefined;
+    default:
+      return rotationMatrix(opType, value);
+  }
+}
+
+export interface LocalTransform {
+  matrix: THREE.Matrix4;
+  resetsXformStack: boolean;
+}
+
+// Compose the prim's local matrix from its ops in xformOpOrder order. Ops
+// that are authored but not listed in xformOpOrder do not contribute.
+export function computeLocalTransform(prim: ParsedPrim, stageFrame: number): LocalTransform {
+  const matrix = new THREE.Matrix4();
+  const order = prim.xformOpOrder ?? [];
+
+  // Only the ops after the last reset apply
+  const resetIndex = order.lastIndexOf(RESET_XFORM_STACK);
+  for (const entry of order.slice(resetIndex + 1)) {
+    const name = parseXformOpName(entry);
+    const op = name && prim.xformOps?.[name.attributeName];
+    if (!name || !op) continue;
+    const value = sampleXformOp(op, name.opType, stageFrame);
+    const local = value && opMatrix(name.opType, value);
+    if (local) matrix.multiply(name.inverse ? local.invert() : local);
+  }
+
+  return { matrix, resetsXformStack: resetIndex >= 0 };
+}
+
+// A prim's matrix relative to the stage root, from the chain of prims leading
+// to it (root first)
+export function computeWorldMatrix(chain: ParsedPrim[], stageFrame: number): THREE.Matrix4 {
+  const world = new THREE.Matrix4();
+  for (const prim of chain) {
+    const { matrix, resetsXformStack } = computeLocalTransform(prim, stageFrame);
+    if (resetsXformStack) world.identity();
+    world.multiply(matrix);
+  }
+  return world;
+}
@@ -7,6 +7,7 @@ import {
   clearStorage,
   hasStoredFiles,
 } from '../utils/indexedDB';
+import { isBinaryAsset, isUsdaFile } from '../hooks/useVirtualFileSystem';
 
 // Generate unique ID
 function generateId(): string {
@@ -171,6 +172,34 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     return newFile;
   }, []);
 
+  // Add a binary asset (e.g. a texture). Assets are stored as Blobs and not opened in the editor.
+  const createAssetFile = useCallback((path: string, blob: Blob): VirtualFile => {
+    const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+    const name = normalizedPath.split('/').pop() || 'untitled';
+
+    const newFile: VirtualFile = {
+      id: generateId(),
+      path: normalizedPath,
+      name,
+      content: '',
+      blob,
+      isDirty: false,
+      lastModified: Date.now(),
+      active: true,
+    };
+
+    setFiles((prev) => {
+      const next = new Map(prev);
+      next.set(normalizedPath, newFile);
+      return next;
+    });
+
+    // Save to IndexedDB
+    saveFileToStorage(newFile).catch(console.error);
+
+    return newFile;
+  }, []);
+
   // Update file content
   const updateFileContent = useCallback((path: string, content: string) => {
     setFiles((prev) => {
@@ -316,12 +345,14 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
   // Import files
   const importFiles = useCallback(async (fileList: FileList) => {
     for (const file of Array.from(fileList)) {
-      if (file.name.endsWith('.usda') || file.name.endsWith('.usd')) {
+      if (isUsdaFile(file.name)) {
         const content = await file.text();
         createFile(`/${file.name}`, content);
+      } else if (isBinaryAsset(file.name)) {
+        createAssetFile(`/${file.name}`, file);
       }
     }
-  }, [createFile]);
+  }, [createFile, createAssetFile]);
 
   // Get a single file
   const getFile = useCallback((path: string): VirtualFile | undefined => {
@@ -363,6 +394,7 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     openFilePaths,
     errors,
     createFile,
+    createAssetFile,
     updateFileContent,
     deleteFile,
     renameFile,
@@ -1,9 +1,12 @@
+import type { SourceRange } from '../parsers/usdaLexer';
+
 // Virtual file representation
 export interface VirtualFile {
   id: string;
   path: string;       // e.g., "/models/cube.usda"
   name: string;       // e.g., "cube.usda"
-  content: string;
+  content: string;    // Empty for binary assets
+  blob?: Blob;        // Binary assets such as textures (PNG, JPG, EXR)
   isDirty: boolean;
   lastModified: number;
   active: boolean;    // Whether this file is included in stage composition
@@ -14,19 +17,40 @@ export type ParseErrorType =
   | 'missing_file'
   | 'circular_reference'
   | 'invalid_prim_path'
+  | 'missing_default_prim' // Warning: a reference without a prim path into a layer with no defaultPrim
   | 'parse_error';
 
 export interface ParseError {
   type: ParseErrorType;
   message: string;
   filePath: string;
-  line?: number;
+  line?: number;       // 1-based start position in filePath
+  column?: number;
+  endLine?: number;    // End of the offending range
+  endColumn?: number;
+}
+
+// Time mapping from a layer into the layer that includes it:
+// outerTime = offset + scale * innerTime
+export interface LayerOffset {
+  offset: number;
+  scale: number;
+}
+
+// Sublayer entry from a layer's subLayers metadata
+export interface UsdSubLayer {
+  assetPath: string;     // e.g., "./anim.usda"
+  layerOffset?: LayerOffset;
+  range?: SourceRange;   // The asset value in the layer's text
 }
 
 // Reference/Payload information
 export interface UsdReference {
-  assetPath: string;     // e.g., "./models/cube.usda"
-  primPath?: string;     // e.g., "/Sphere" (optional target prim)
+  assetPath: string;     // e.g., "./models/cube.usda"; empty for internal references
+  primPath?: string;     // e.g., "/Sphere" (optional target prim; defaults to the layer's defaultPrim)
+  layerPath?: string;    // Layer the arc was authored in; relative asset paths resolve against it
+  layerOffset?: LayerOffset; // @walk.usda@ (offset = 24; scale = 0.5)
+  range?: SourceRange;   // The arc's value in layerPath's text
 }
 
 // Workspace state
@@ -41,6 +65,7 @@ export interface WorkspaceState {
 export interface WorkspaceActions {
   // File operations
   createFile: (path: string, content?: string) => VirtualFile;
+  createAssetFile: (path: string, blob: Blob) => VirtualFile;
   updateFileContent: (path: string, content: string) => void;
   deleteFile: (path: string) => void;
   renameFile: (oldPath: string, newPath: string) => void;
@@ -0,0 +1,138 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import type { ParsedPrim } from '../parsers/usdaParser';
+
+type Vector3Tuple = [number, number, number];
+type CubicBasis = NonNullable<ParsedPrim['curveBasis']>;
+
+// Samples evaluated along each cubic segment
+const SEGMENT_SAMPLES = 12;
+
+// Cubic basis weights for the four control points of a segment at t
+function basisWeights(basis: CubicBasis, t: number): [number, number, number, number] {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const s = 1 - t;
+  switch (basis) {
+    case 'bezier':
+      return [s * s * s, 3 * s * s * t, 3 * s * t2, t3];
+    case 'bspline':
+      return [(s * s * s) / 6, (3 * t3 - 6 * t2 + 4) / 6, (-3 * t3 + 3 * t2 + 3 * t + 1) / 6, t3 / 6];
+    case 'catmullRom':
+      return [
+        (-t3 + 2 * t2 - t) / 2,
+        (3 * t3 - 5 * t2 + 2) / 2,
+        (-3 * t3 + 4 * t2 + t) / 2,
+        (t3 - t2) / 2,
+      ];
+  }
+}
+
+// Indices of the four control points of each segment. Bezier segments share
+// their end points (vstep 3); bspline and catmullRom segments slide by one.
+function segmentWindows(count: number, basis: CubicBasis, periodic: boolean): number[][] {
+  const step = basis === 'bezier' ? 3 : 1;
+  const segments = periodic ? Math.floor(count / step) : Math.floor((count - 4) / step) + 1;
+  return Array.from({ length: Math.max(segments, 0) }, (_, segment) =>
+    [0, 1, 2, 3].map((i) => (segment * step + i) % count)
+  );
+}
+
+// Pinned bspline and catmullRom curves reach their end points through a
+// phantom point reflected across each end
+function withPhantomPoints(points: THREE.Vector3[]): THREE.Vector3[] {
+  const first = points[0].clone().multiplyScalar(2).sub(points[1]);
+  const last = points[points.length - 1].clone().multiplyScalar(2).sub(points[points.length - 2]);
+  return [first, ...points, last];
+}
+
+function evaluateCubic(points: THREE.Vector3[], basis: CubicBasis, periodic: boolean): THREE.Vector3[] {
+  const polyline: THREE.Vector3[] = [];
+  for (const window of segmentWindows(points.length, basis, periodic)) {
+    const controls = window.map((index) => points[index]);
+    for (let sample = polyline.length === 0 ? 0 : 1; sample <= SEGMENT_SAMPLES; sample++) {
+      const weights = basisWeights(basis, sample / SEGMENT_SAMPLES);
+      polyline.push(
+        controls.reduce((sum, control, i) => sum.addScaledVector(control, weights[i]), new THREE.Vector3())
+      );
+    }
+  }
+  // A periodic curve ends where it starts; the closing segment is drawn from the flag instead
+  if (periodic) polyline.pop();
+  return polyline;
+}
+
+export interface CurvePolyline {
+  points: THREE.Vector3[];
+  closed: boolean;
+  width: number; // Average authored width along the curve
+}
+
+// Evaluate each curve of a UsdGeomBasisCurves into a polyline
+export function evaluateCurves(prim: ParsedPrim, points: Vector3Tuple[]): CurvePolyline[] {
+  const counts = prim.curveVertexCounts ?? [points.length];
+  const widths = prim.widths ?? [];
+  const periodic = prim.curveWrap === 'periodic';
+  const basis = prim.curveBasis ?? 'bezier';
+
+  const curves: CurvePolyline[] = [];
+  let offset = 0;
+  for (const count of counts) {
+    const vertices = points.slice(offset, offset + count).map((point) => new THREE.Vector3(...point));
+
+    // Widths are either constant, uniform (per curve) or per vertex
+    const curveWidths =
+      widths.length === 1
+        ? widths
+        : widths.length === counts.length
+          ? [widths[curves.length]]
+          : widths.slice(offset, offset + count);
+    const width = curveWidths.length
+      ? curveWidths.reduce((sum, value) => sum + value, 0) / curveWidths.length
+      : 0;
+    offset += count;
+
+    if (vertices.length < 2) continue;
+    if (prim.curveType === 'cubic' && vertices.length >= 4) {
+      const pinned = prim.curveWrap === 'pinned' && basis !== 'bezier';
+      curves.push({
+        points: evaluateCubic(pinned ? withPhantomPoints(vertices) : vertices, basis, periodic),
+        closed: periodic,
+        width,
+      });
+    } else {
+      // Linear curves, and cubic curves with too few vertices, connect their vertices
+      curves.push({ points: vertices, closed: periodic, width });
+    }
+  }
+  return curves;
+}
+
+// Line segment pairs for drawing curves without widths
+export function buildCurveLinesGeometry(curves: CurvePolyline[]): THREE.BufferGeometry {
+  const positions: number[] = [];
+  for (const { points, closed } of curves) {
+    const segments = closed ? points.length : points.length - 1;
+    for (let i = 0; i < segments; i++) {
+      positions.push(...points[i].toArray(), ...points[(i + 1) % points.length].toArray());
+    }
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  return geometry;
+}
+
+// Tubes with the diameter of each curve's width
+export function buildCurveTubesGeometry(curves: CurvePolyline[]): THREE.BufferGeometry {
+  const tubes = curves.map(({ points, closed, width }) => {
+    const path = new THREE.CurvePath<THREE.Vector3>();
+    const segments = closed ? points.length : points.length - 1;
+    for (let i = 0; i < segments; i++) {
+      path.add(new THREE.LineCurve3(points[i], points[(i + 1) % points.length]));
+    }
+    return new THREE.TubeGeometry(path, Math.max(segments, 1), width / 2, 8, closed);
+  });
+  const merged = tubes.length ? mergeGeometries(tubes) : new THREE.BufferGeometry();
+  tubes.forEach((tube) => tube.dispose());
+  return merged ?? new THREE.BufferGeometry();
+}
@@ -0,0 +1,173 @@
+import * as THREE from 'three';
+import type { ParsedPrim, PrimvarInterpolation } from '../parsers/usdaParser';
+
+type Vector3Tuple = [number, number, number];
+
+// Where a face corner reads its primvar value from, by interpolation
+interface Corner {
+  face: number;       // uniform
+  faceVertex: number; // faceVarying
+  point: number;      // vertex and varying
+}
+
+// Primvars authored without an interpolation are matched to the topology by their length
+function inferInterpolation(
+  length: number,
+  prim: ParsedPrim,
+  pointCount: number,
+  faceCount: number
+): PrimvarInterpolation {
+  if (length === (prim.faceVertexIndices?.length ?? 0)) return 'faceVarying';
+  if (length === pointCount) return 'vertex';
+  if (length === faceCount) return 'uniform';
+  return 'constant';
+}
+
+function elementIndex(interpolation: PrimvarInterpolation, corner: Corner): number {
+  switch (interpolation) {
+    case 'constant':
+      return 0;
+    case 'uniform':
+      return corner.face;
+    case 'faceVarying':
+      return corner.faceVertex;
+    default:
+      return corner.point;
+  }
+}
+
+// Newell's method; robust for non-planar and concave polygons
+function polygonNormal(points: THREE.Vector3[]): THREE.Vector3 {
+  const normal = new THREE.Vector3();
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    normal.x += (current.y - next.y) * (current.z + next.z);
+    normal.y += (current.z - next.z) * (current.x + next.x);
+    normal.z += (current.x - next.x) * (current.y + next.y);
+  }
+  return normal.normalize();
+}
+
+// Split a face into triangles of corner indices (0..n-1), keeping its winding.
+// Triangles and quads are fanned; larger polygons are projected onto their
+// plane and ear-clipped so that concave faces triangulate correctly.
+function triangulateFace(points: THREE.Vector3[]): [number, number, number][] {
+  if (points.length === 3) return [[0, 1, 2]];
+  if (points.length === 4) {
+    return [
+      [0, 1, 2],
+      [0, 2, 3],
+    ];
+  }
+
+  const normal = polygonNormal(points);
+  const u = new THREE.Vector3()
+    .crossVectors(Math.abs(normal.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0), normal)
+    .normalize();
+  const v = new THREE.Vector3().crossVectors(normal, u);
+  const contour = points.map((point) => new THREE.Vector2(point.dot(u), point.dot(v)));
+
+  // The projection keeps the face counter-clockwise; triangles that come back
+  // clockwise are flipped to match
+  return THREE.ShapeUtils.triangulateShape(contour, []).map(([a, b, c]) => {
+    const area = THREE.ShapeUtils.area([contour[a], contour[b], contour[c]]);
+    return area < 0 ? [a, c, b] : [a, b, c];
+  });
+}
+
+// Build a non-indexed BufferGeometry from a UsdGeomMesh. points are passed in
+// separately because they may be sampled from points.timeSamples. The uv
+// attribute comes from the texCoord primvar the bound material reads.
+export function buildMeshGeometry(
+  prim: ParsedPrim,
+  points: Vector3Tuple[],
+  uvPrimvar = 'st'
+): THREE.BufferGeometry {
+  const counts = prim.faceVertexCounts ?? [];
+  const indices = prim.faceVertexIndices ?? [];
+  const leftHanded = prim.orientation === 'leftHanded';
+
+  const normalsInterpolation =
+    prim.normalsInterpolation ??
+    inferInterpolation(prim.normals?.length ?? 0, prim, points.length, counts.length);
+  const texCoords = prim.texCoords?.[uvPrimvar];
+  const uvsInterpolation =
+    texCoords?.interpolation ??
+    inferInterpolation(texCoords?.indices?.length ?? texCoords?.values.length ?? 0, prim, points.length, counts.length);
+
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const corners: Corner[] = [];
+
+  let faceVertexOffset = 0;
+  counts.forEach((count, face) => {
+    const faceVertices = Array.from({ length: count }, (_, i) => faceVertexOffset + i);
+    faceVertexOffset += count;
+
+    // Degenerate faces and faces indexing past the points are skipped
+    const pointIndices = faceVertices.map((faceVertex) => indices[faceVertex]);
+    if (count < 3 || pointIndices.some((index) => index === undefined || !points[index])) return;
+
+    const facePoints = pointIndices.map((index) => new THREE.Vector3(...points[index]));
+    for (const triangle of triangulateFace(facePoints)) {
+      // three.js front faces are counter-clockwise, as in rightHanded USD meshes
+      const ordered = leftHanded ? [triangle[0], triangle[2], triangle[1]] : triangle;
+      for (const corner of ordered) {
+        const point = pointIndices[corner];
+        positions.push(...points[point]);
+        corners.push({ face, faceVertex: faceVertices[corner], point });
+      }
+    }
+  });
+
+  for (const corner of corners) {
+    if (prim.normals?.length) {
+      normals.push(...(prim.normals[elementIndex(normalsInterpolation, corner)] ?? [0, 0, 0]));
+    }
+    if (texCoords?.values.length) {
+      const element = elementIndex(uvsInterpolation, corner);
+      const uv = texCoords.values[texCoords.indices ? texCoords.indices[element] : element] ?? [0, 0];
+      uvs.push(...uv);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  if (uvs.length > 0) {
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  }
+
+  if (normals.length > 0) {
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  } else if (prim.subdivisionScheme === 'none') {
+    // Unsubdivided meshes without normals are shaded flat
+    geometry.computeVertexNormals();
+  } else {
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(smoothNormals(positions, corners, points.length), 3));
+  }
+
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+// Area-weighted normals shared by every corner that uses the same point
+function smoothNormals(positions: number[], corners: Corner[], pointCount: number): number[] {
+  const accumulated = Array.from({ length: pointCount }, () => new THREE.Vector3());
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+
+  for (let i = 0; i < corners.length; i += 3) {
+    a.fromArray(positions, i * 3);
+    b.fromArray(positions, i * 3 + 3);
+    c.fromArray(positions, i * 3 + 6);
+    const faceNormal = new THREE.Vector3().crossVectors(b.sub(a), c.sub(a));
+    for (let j = 0; j < 3; j++) {
+      accumulated[corners[i + j].point].add(faceNormal);
+    }
+  }
+
+  return corners.flatMap(({ point }) => accumulated[point].clone().normalize().toArray());
+}
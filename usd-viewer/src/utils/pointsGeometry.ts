@@ -0,0 +1,60 @@
+import * as THREE from 'three';
+
+// Width of points that author no widths
+const DEFAULT_POINT_WIDTH = 0.1;
+
+// Round sprites sized in scene units, shaded like small spheres
+const POINTS_VERTEX_SHADER = /* glsl */ `
+  attribute float width;
+  uniform float viewportHeight;
+
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    // projectionMatrix[1][1] converts a width in view space to clip space
+    float pixels = width * projectionMatrix[1][1] * viewportHeight * 0.5;
+    gl_PointSize = projectionMatrix[3][3] == 0.0 ? pixels / -mvPosition.z : pixels;
+  }
+`;
+
+const POINTS_FRAGMENT_SHADER = /* glsl */ `
+  uniform vec3 color;
+
+  void main() {
+    vec2 offset = gl_PointCoord * 2.0 - 1.0;
+    float distanceSquared = dot(offset, offset);
+    if (distanceSquared > 1.0) discard;
+    float shade = sqrt(1.0 - distanceSquared);
+    gl_FragColor = vec4(color * (0.4 + 0.6 * shade), 1.0);
+  }
+`;
+
+// Positions plus a per-point width attribute. widths may hold one constant
+// value or one value per point.
+export function buildPointsGeometry(
+  points: [number, number, number][],
+  widths: number[] = []
+): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(points.flat(), 3));
+  geometry.setAttribute(
+    'width',
+    new THREE.Float32BufferAttribute(
+      points.map((_, index) => widths[widths.length === 1 ? 0 : index] ?? DEFAULT_POINT_WIDTH),
+      1
+    )
+  );
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+export function createPointsMaterial(): THREE.ShaderMaterial {
+  return new THREE.ShaderMaterial({
+    vertexShader: POINTS_VERTEX_SHADER,
+    fragmentShader: POINTS_FRAGMENT_SHADER,
+    uniforms: {
+      color: { value: new THREE.Color() },
+      viewportHeight: { value: 1 },
+    },
+  });
+}
@@ -0,0 +1,96 @@
+import * as THREE from 'three';
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
+import type { SurfaceTexture, TextureWrap } from '../parsers/materials';
+
+// 'black' has no three.js equivalent; clamping is the closest. Without file
+// metadata, useMetadata falls back to black as well.
+const WRAP_MODES: Record<TextureWrap, THREE.Wrapping> = {
+  repeat: THREE.RepeatWrapping,
+  mirror: THREE.MirroredRepeatWrapping,
+  clamp: THREE.ClampToEdgeWrapping,
+  black: THREE.ClampToEdgeWrapping,
+  useMetadata: THREE.ClampToEdgeWrapping,
+};
+
+const CHANNEL_INDEX = { r: 0, g: 1, b: 2, a: 3 } as const;
+
+// Textures that differ only in how they are sampled share an image but not a texture
+export function textureKey(texture: SurfaceTexture, isColor: boolean): string {
+  const colorSpace = isColor && texture.sourceColorSpace !== 'raw' ? 'srgb' : 'linear';
+  return [texture.filePath, texture.channel, texture.wrapS, texture.wrapT, colorSpace].join('|');
+}
+
+// three.js reads scalar maps from fixed channels (roughness from G, metalness
+// from B, ...). Copying the authored channel into R, G and B lets any of them
+// read it.
+function spreadChannel(data: { length: number; [index: number]: number }, channel: number) {
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = data[i + channel];
+  }
+}
+
+async function loadImageTexture(blob: Blob, channel: SurfaceTexture['channel']): Promise<THREE.Texture> {
+  const url = URL.createObjectURL(blob);
+  try {
+    const texture = await new THREE.TextureLoader().loadAsync(url);
+    if (channel === 'rgb') return texture;
+
+    const image = texture.image as HTMLImageElement;
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const context = canvas.getContext('2d')!;
+    context.drawImage(image, 0, 0);
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+    spreadChannel(pixels.data, CHANNEL_INDEX[channel]);
+    context.putImageData(pixels, 0, 0);
+    texture.dispose();
+    return new THREE.CanvasTexture(canvas);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function loadExrTexture(blob: Blob, channel: SurfaceTexture['channel']): Promise<THREE.Texture> {
+  const url = URL.createObjectURL(blob);
+  try {
+    const texture = await new EXRLoader().loadAsync(url);
+    // Channels are picked from RGBA data; single-channel EXRs are used as loaded
+    if (channel !== 'rgb' && texture.format === THREE.RGBAFormat) {
+      spreadChannel(texture.image.data as Uint16Array | Float32Array, CHANNEL_INDEX[channel]);
+    }
+    return texture;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Load a UsdUVTexture's file from its Blob. Color inputs are decoded as sRGB
+// unless the shader says the data is raw; EXR data is always linear.
+export async function loadSurfaceTexture(
+  blob: Blob,
+  texture: SurfaceTexture,
+  isColor: boolean
+): Promise<THREE.Texture> {
+  const isExr = texture.filePath.toLowerCase().endsWith('.exr');
+  const loaded = isExr
+    ? await loadExrTexture(blob, texture.channel)
+    : await loadImageTexture(blob, texture.channel);
+
+  loaded.wrapS = WRAP_MODES[texture.wrapS];
+  loaded.wrapT = WRAP_MODES[texture.wrapT];
+  loaded.colorSpace =
+    isColor && !isExr && texture.sourceColorSpace !== 'raw' ? THREE.SRGBColorSpace : THREE.NoColorSpace;
+  loaded.needsUpdate = true;
+  return loaded;
+}
+
+// Load a DomeLight's latlong texture as an equirectangular environment map
+export async function loadEnvironmentTexture(blob: Blob, filePath: string): Promise<THREE.Texture> {
+  const isExr = filePath.toLowerCase().endsWith('.exr');
+  const loaded = isExr ? await loadExrTexture(blob, 'rgb') : await loadImageTexture(blob, 'rgb');
+  loaded.mapping = THREE.EquirectangularReflectionMapping;
+  loaded.colorSpace = isExr ? THREE.LinearSRGBColorSpace : THREE.SRGBColorSpace;
+  loaded.needsUpdate = true;
+  return loaded;
+}